@@ -9,11 +9,21 @@ import * as path from "path";
 dotenv.config();
 
 import MongoStore from "connect-mongo";
+import { Sessioning } from "../server/app";
 import { connectDb } from "../server/db";
-import { appRouter } from "../server/routes";
+import { apiTokenSessions, appRouter, sessionRecords } from "../server/routes";
 
 export const app = express();
 const PORT = process.env.PORT || 3000;
+
+// Behind proxies, like Vercel's, `req.ip` is the address of the last proxy for every client, which would make
+// the login lockout per IP address lock out everyone at once. TRUST_PROXY is how many proxies are in front of
+// the app (one on Vercel, none by default elsewhere), so that Express takes the client address from X-Forwarded-For.
+const TRUST_PROXY = Number(process.env.TRUST_PROXY ?? (process.env.VERCEL ? 1 : 0));
+if (!Number.isInteger(TRUST_PROXY) || TRUST_PROXY < 0) {
+  throw new Error(`TRUST_PROXY must be a whole number of proxies, not ${process.env.TRUST_PROXY}!`);
+}
+app.set("trust proxy", TRUST_PROXY);
 app.use(logger("dev"));
 
 app.use(cors()); // https://developer.mozilla.org/en-US/docs/Web/HTTP/CORS
@@ -21,6 +31,9 @@ app.use(cors()); // https://developer.mozilla.org/en-US/docs/Web/HTTP/CORS
 app.use(express.json()); // Enable parsing JSON in requests and responses.
 app.use(express.urlencoded({ extended: false })); // Also enable URL encoded request and responses.
 
+// Scripts can send an API token instead of a session cookie; see `apiTokenSessions`.
+app.use(apiTokenSessions);
+
 // Session allows us to store a cookie 🍪.
 app.use(
   session({
@@ -30,10 +43,15 @@ app.use(
     store: MongoStore.create({
       mongoUrl: process.env.MONGO_SRV,
       dbName: "mongo-sessions",
+      // keep sessions exactly as long as their records, which are what `GET /sessions` lists
+      ttl: Sessioning.expiryDays * 24 * 60 * 60,
     }),
   }),
 );
 
+// Revoked sessions are logged out here; see `sessionRecords`.
+app.use(sessionRecords);
+
 app.use(express.static(path.join(__dirname, "../public")));
 app.use("/api/", appRouter);
 
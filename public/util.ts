@@ -24,7 +24,7 @@ const operations: Operation[] = [
     name: "Create User",
     endpoint: "/api/users",
     method: "POST",
-    fields: { username: "input", password: "input" },
+    fields: { username: "input", password: "input", email: "input" },
   },
   {
     name: "Login",
@@ -45,12 +45,66 @@ const operations: Operation[] = [
     method: "PATCH",
     fields: { currentPassword: "input", newPassword: "input" },
   },
+  {
+    name: "Update Email (empty to remove)",
+    endpoint: "/api/users/email",
+    method: "PATCH",
+    fields: { currentPassword: "input", email: "input" },
+  },
+  {
+    name: "Request Password Reset",
+    endpoint: "/api/password-reset",
+    method: "POST",
+    fields: { username: "input" },
+  },
+  {
+    name: "Reset Password With Token",
+    endpoint: "/api/password-reset/confirm",
+    method: "POST",
+    fields: { token: "input", newPassword: "input" },
+  },
   {
     name: "Delete User",
     endpoint: "/api/users",
     method: "DELETE",
     fields: {},
   },
+  {
+    name: "Get My Sessions",
+    endpoint: "/api/sessions",
+    method: "GET",
+    fields: {},
+  },
+  {
+    name: "Revoke Session",
+    endpoint: "/api/sessions/:id",
+    method: "DELETE",
+    fields: { id: "input" },
+  },
+  {
+    name: "Revoke All Other Sessions",
+    endpoint: "/api/sessions",
+    method: "DELETE",
+    fields: {},
+  },
+  {
+    name: "Create API Token (scopes: comma-separated read/write, expiryDays optional)",
+    endpoint: "/api/tokens",
+    method: "POST",
+    fields: { name: "input", scopes: "input", expiryDays: "input" },
+  },
+  {
+    name: "Get My API Tokens",
+    endpoint: "/api/tokens",
+    method: "GET",
+    fields: {},
+  },
+  {
+    name: "Revoke API Token",
+    endpoint: "/api/tokens/:id",
+    method: "DELETE",
+    fields: { id: "input" },
+  },
   {
     name: "Get Users (empty for all)",
     endpoint: "/api/users/:username",
@@ -64,7 +118,49 @@ const operations: Operation[] = [
     fields: { name: "input" },
   },
   {
-    name: "Delete Project",
+    name: "Create Project From Template (start optional)",
+    endpoint: "/api/projects/template",
+    method: "POST",
+    fields: { template: "input", name: "input", start: "input" },
+  },
+  {
+    name: "Duplicate Project (members: true to carry over members, start optional)",
+    endpoint: "/api/projects/:id/duplicate",
+    method: "POST",
+    fields: { id: "input", name: "input", members: "input", start: "input" },
+  },
+  {
+    name: "Save Project As Template",
+    endpoint: "/api/templates",
+    method: "POST",
+    fields: { project: "input", name: "input" },
+  },
+  {
+    name: "Get My Templates",
+    endpoint: "/api/templates",
+    method: "GET",
+    fields: {},
+  },
+  {
+    name: "Delete Template",
+    endpoint: "/api/templates/:id",
+    method: "DELETE",
+    fields: { id: "input" },
+  },
+  {
+    name: "Archive Project",
+    endpoint: "/api/projects/:id/archive",
+    method: "PATCH",
+    fields: { id: "input" },
+  },
+  {
+    name: "Restore Archived Project",
+    endpoint: "/api/projects/:id/restore",
+    method: "PATCH",
+    fields: { id: "input" },
+  },
+  {
+    name: "Delete Archived Project",
     endpoint: "/api/projects/:id",
     method: "DELETE",
     fields: { id: "input" },
@@ -76,10 +172,16 @@ const operations: Operation[] = [
     fields: { name: "input", id: "input" },
   },
   {
-    name: "Get User's Projects",
+    name: "Get User's Projects (archived: true to include archived ones)",
     endpoint: "/api/user/projects",
     method: "GET",
-    fields: {},
+    fields: { archived: "input" },
+  },
+  {
+    name: "Get Project Plant (since optional)",
+    endpoint: "/api/project/plant",
+    method: "GET",
+    fields: { project: "input", since: "input" },
   },
   {
     name: "Get All Members For a Project",
@@ -88,10 +190,46 @@ const operations: Operation[] = [
     fields: { id: "input" },
   },
   {
-    name: "Add Member To Project (project id, member name)",
-    endpoint: "/api/project/members",
+    name: "Invite User To Project (project id, username, role optional)",
+    endpoint: "/api/project/invites",
     method: "POST",
-    fields: { id: "input", member: "input" },
+    fields: { project: "input", username: "input", role: "input" },
+  },
+  {
+    name: "Get Pending Invites For a Project",
+    endpoint: "/api/project/invites",
+    method: "GET",
+    fields: { project: "input" },
+  },
+  {
+    name: "Cancel Project Invite",
+    endpoint: "/api/project/invites/:id",
+    method: "DELETE",
+    fields: { id: "input" },
+  },
+  {
+    name: "Get My Project Invites",
+    endpoint: "/api/user/invites",
+    method: "GET",
+    fields: {},
+  },
+  {
+    name: "Accept Project Invite",
+    endpoint: "/api/user/invites/:id/accept",
+    method: "PUT",
+    fields: { id: "input" },
+  },
+  {
+    name: "Reject Project Invite",
+    endpoint: "/api/user/invites/:id/reject",
+    method: "PUT",
+    fields: { id: "input" },
+  },
+  {
+    name: "Change Member Role (manager, contributor or viewer)",
+    endpoint: "/api/project/members/role",
+    method: "PATCH",
+    fields: { id: "input", member: "input", role: "input" },
   },
   {
     name: "Remove Member From Project (project id, member name)",
@@ -106,16 +244,40 @@ const operations: Operation[] = [
     fields: { id: "input", name: "input" },
   },
   {
-    name: "Update Project Manager",
+    name: "Transfer Project Ownership",
     endpoint: "/api/project/manager",
     method: "PATCH",
     fields: { id: "input", manager: "input" },
   },
   {
-    name: "Create a Task for a Project (assignee optional?)",
+    name: "Create a Task for a Project (assignee, start and due dates optional)",
     endpoint: "/api/project/tasks",
     method: "POST",
-    fields: { project: "input", description: "input", assignee: "input" },
+    fields: { project: "input", description: "input", assignee: "input", start: "input", due: "input" },
+  },
+  {
+    name: "Create a Recurring Task (rule as JSON, assignee and start optional)",
+    endpoint: "/api/project/recurring",
+    method: "POST",
+    fields: { project: "input", description: "input", rule: "json", assignee: "input", start: "input" },
+  },
+  {
+    name: "Get Recurring Tasks for a Project",
+    endpoint: "/api/project/recurring",
+    method: "GET",
+    fields: { project: "input" },
+  },
+  {
+    name: "Update Recurring Task (description and/or rule as JSON)",
+    endpoint: "/api/project/recurring/:id",
+    method: "PATCH",
+    fields: { id: "input", description: "input", rule: "json" },
+  },
+  {
+    name: "Stop Recurring Task",
+    endpoint: "/api/project/recurring/:id",
+    method: "DELETE",
+    fields: { id: "input" },
   },
   {
     name: "Delete a Task for a Project",
@@ -124,16 +286,41 @@ const operations: Operation[] = [
     fields: { task: "input" },
   },
   {
-    name: "Get all Tasks for a Project",
+    name: "Bulk Update Tasks (operation: complete/reopen/assign/unassign/delete/move, tasks: comma-separated ids)",
+    endpoint: "/api/project/tasks/bulk",
+    method: "POST",
+    fields: { operation: "input", tasks: "input", assignee: "input", project: "input" },
+  },
+  {
+    name: "Get all Tasks for a Project (due: overdue/week, from/to dates, graph: true optional)",
     endpoint: "/api/project/tasks",
     method: "GET",
-    fields: { project: "input" },
+    fields: { project: "input", due: "input", from: "input", to: "input", graph: "input" },
   },
   {
-    name: "Get all Tasks for a User",
+    name: "Get all Tasks assigned to a User (due: overdue/week, from/to dates optional)",
     endpoint: "/api/user/tasks",
     method: "GET",
-    fields: {},
+    fields: { due: "input", from: "input", to: "input" },
+  },
+  {
+    name: "Search Tasks (all filters optional)",
+    endpoint: "/api/tasks",
+    method: "GET",
+    fields: {
+      projects: "input",
+      assignee: "input",
+      completion: "input",
+      text: "input",
+      createdFrom: "input",
+      createdTo: "input",
+      updatedFrom: "input",
+      updatedTo: "input",
+      sort: "input",
+      order: "input",
+      cursor: "input",
+      limit: "input",
+    },
   },
   {
     name: "Update Task Description",
@@ -141,6 +328,18 @@ const operations: Operation[] = [
     method: "PATCH",
     fields: { task: "input", description: "input" },
   },
+  {
+    name: "Update Task Dates (start and/or due)",
+    endpoint: "/api/project/task/dates",
+    method: "PATCH",
+    fields: { task: "input", start: "input", due: "input" },
+  },
+  {
+    name: "Clear Task Dates",
+    endpoint: "/api/project/task/dates",
+    method: "DELETE",
+    fields: { task: "input" },
+  },
   {
     name: "Add Task Assignee",
     endpoint: "/api/project/task/assignees",
@@ -153,6 +352,210 @@ const operations: Operation[] = [
     method: "DELETE",
     fields: { task: "input" },
   },
+  {
+    name: "Complete Task",
+    endpoint: "/api/project/task/complete",
+    method: "PATCH",
+    fields: { task: "input" },
+  },
+  {
+    name: "Reopen Task",
+    endpoint: "/api/project/task/reopen",
+    method: "PATCH",
+    fields: { task: "input" },
+  },
+  {
+    name: "Get Project Board",
+    endpoint: "/api/project/board",
+    method: "GET",
+    fields: { project: "input" },
+  },
+  {
+    name: "Get Project Statuses",
+    endpoint: "/api/project/statuses",
+    method: "GET",
+    fields: { project: "input" },
+  },
+  {
+    name: "Add Project Status (position optional)",
+    endpoint: "/api/project/statuses",
+    method: "POST",
+    fields: { project: "input", name: "input", position: "input" },
+  },
+  {
+    name: "Update Project Status (name and/or position)",
+    endpoint: "/api/project/statuses/:id",
+    method: "PATCH",
+    fields: { id: "input", name: "input", position: "input" },
+  },
+  {
+    name: "Delete Project Status",
+    endpoint: "/api/project/statuses/:id",
+    method: "DELETE",
+    fields: { id: "input" },
+  },
+  {
+    name: "Get Project Milestones",
+    endpoint: "/api/project/milestones",
+    method: "GET",
+    fields: { project: "input" },
+  },
+  {
+    name: "Create Milestone (target optional)",
+    endpoint: "/api/project/milestones",
+    method: "POST",
+    fields: { project: "input", name: "input", target: "input" },
+  },
+  {
+    name: "Update Milestone (name and/or target)",
+    endpoint: "/api/project/milestones/:id",
+    method: "PATCH",
+    fields: { id: "input", name: "input", target: "input" },
+  },
+  {
+    name: "Clear Milestone Target",
+    endpoint: "/api/project/milestones/:id/target",
+    method: "DELETE",
+    fields: { id: "input" },
+  },
+  {
+    name: "Delete Milestone",
+    endpoint: "/api/project/milestones/:id",
+    method: "DELETE",
+    fields: { id: "input" },
+  },
+  {
+    name: "Attach Task to Milestone",
+    endpoint: "/api/project/milestones/:id/tasks",
+    method: "POST",
+    fields: { id: "input", task: "input" },
+  },
+  {
+    name: "Detach Task from Milestone",
+    endpoint: "/api/project/milestones/:id/tasks",
+    method: "DELETE",
+    fields: { id: "input", task: "input" },
+  },
+  {
+    name: "Move Task to Status (position optional)",
+    endpoint: "/api/project/task/status",
+    method: "PATCH",
+    fields: { task: "input", status: "input", position: "input" },
+  },
+  {
+    name: "Add Task Dependency (task is blocked by blockedBy)",
+    endpoint: "/api/project/task/dependencies",
+    method: "POST",
+    fields: { task: "input", blockedBy: "input" },
+  },
+  {
+    name: "Remove Task Dependency",
+    endpoint: "/api/project/task/dependencies",
+    method: "DELETE",
+    fields: { task: "input", blockedBy: "input" },
+  },
+  {
+    name: "Get Task Dependencies",
+    endpoint: "/api/project/task/dependencies",
+    method: "GET",
+    fields: { task: "input" },
+  },
+  {
+    name: "Get Task Checklist",
+    endpoint: "/api/project/task/checklist",
+    method: "GET",
+    fields: { task: "input" },
+  },
+  {
+    name: "Add Subtask to Checklist (position optional)",
+    endpoint: "/api/project/task/checklist",
+    method: "POST",
+    fields: { task: "input", description: "input", position: "input" },
+  },
+  {
+    name: "Move Subtask",
+    endpoint: "/api/project/task/checklist/position",
+    method: "PATCH",
+    fields: { task: "input", item: "input", position: "input" },
+  },
+  {
+    name: "Check Subtask",
+    endpoint: "/api/project/task/checklist/check",
+    method: "PATCH",
+    fields: { task: "input", item: "input" },
+  },
+  {
+    name: "Uncheck Subtask",
+    endpoint: "/api/project/task/checklist/uncheck",
+    method: "PATCH",
+    fields: { task: "input", item: "input" },
+  },
+  {
+    name: "Remove Subtask",
+    endpoint: "/api/project/task/checklist",
+    method: "DELETE",
+    fields: { task: "input", item: "input" },
+  },
+  {
+    name: "Set Task Auto-Complete (true/false)",
+    endpoint: "/api/project/task/autocomplete",
+    method: "PATCH",
+    fields: { task: "input", autoComplete: "input" },
+  },
+  {
+    name: "Comment on a Task",
+    endpoint: "/api/project/task/comments",
+    method: "POST",
+    fields: { task: "input", content: "input" },
+  },
+  {
+    name: "Get Comments on a Task",
+    endpoint: "/api/project/task/comments",
+    method: "GET",
+    fields: { task: "input" },
+  },
+  {
+    name: "Edit Task Comment",
+    endpoint: "/api/project/task/comments/:id",
+    method: "PATCH",
+    fields: { id: "input", content: "input" },
+  },
+  {
+    name: "Delete Task Comment",
+    endpoint: "/api/project/task/comments/:id",
+    method: "DELETE",
+    fields: { id: "input" },
+  },
+  {
+    name: "Get Project Activity (cursor and limit optional)",
+    endpoint: "/api/project/activity",
+    method: "GET",
+    fields: { project: "input", cursor: "input", limit: "input" },
+  },
+  {
+    name: "Get Task Progress for a Project",
+    endpoint: "/api/project/progress",
+    method: "GET",
+    fields: { project: "input" },
+  },
+  {
+    name: "Get Project Statistics (period is day or week)",
+    endpoint: "/api/project/stats",
+    method: "GET",
+    fields: { project: "input", period: "input" },
+  },
+  {
+    name: "Export Project",
+    endpoint: "/api/project/export",
+    method: "GET",
+    fields: { project: "input" },
+  },
+  {
+    name: "Import Project (name optional)",
+    endpoint: "/api/project/import",
+    method: "POST",
+    fields: { bundle: "json", name: "input" },
+  },
   {
     name: "Get Users Assigned To task",
     endpoint: "/api/project/task/assignees",
@@ -1,24 +1,99 @@
+import ActivityConcept from "./concepts/activity";
 import AuthenticatingConcept from "./concepts/authenticating";
+import CommentingConcept from "./concepts/commenting";
+import DependingConcept from "./concepts/depending";
 import FriendingConcept from "./concepts/friending";
 import GroupItemConcept from "./concepts/grouping";
+import InvitingConcept from "./concepts/inviting";
+import MilestoneConcept from "./concepts/milestones";
+import PlantingConcept from "./concepts/planting";
 import PostingConcept from "./concepts/posting";
 import ProjectConcept from "./concepts/projects";
+import RateLimitingConcept from "./concepts/ratelimiting";
+import RecurringConcept from "./concepts/recurring";
+import ResettingConcept from "./concepts/resetting";
+import RoleConcept from "./concepts/roles";
 import SessioningConcept from "./concepts/sessioning";
+import StatusConcept from "./concepts/statuses";
 import TaskingConcept from "./concepts/tasking";
+import TemplatingConcept from "./concepts/templating";
+import ThrottlingConcept from "./concepts/throttling";
+import TokenConcept from "./concepts/tokens";
+import { ConsoleTransport, FileTransport, MailTransport } from "./framework/mail";
 
 // The app is a composition of concepts instantiated here
 // and synchronized together in `routes.ts`.
-export const Sessioning = new SessioningConcept();
-export const Authing = new AuthenticatingConcept("users");
+// logins of each user, which expire SESSION_EXPIRY_DAYS (14 by default) after they were last used
+export const Sessioning = new SessioningConcept("sessions", numberSetting("SESSION_EXPIRY_DAYS", 14, 1));
+// passwords need at least PASSWORD_MIN_LENGTH characters (8 by default)
+// mixing PASSWORD_MIN_CHARACTER_CLASSES of lowercase letters, uppercase letters, digits and symbols (2 by default)
+export const Authing = new AuthenticatingConcept("users", {
+  minLength: Number(process.env.PASSWORD_MIN_LENGTH ?? 8),
+  minClasses: Number(process.env.PASSWORD_MIN_CHARACTER_CLASSES ?? 2),
+});
+// failed logins per username and per IP address, which are locked out after LOGIN_MAX_FAILURES (5 by default)
+// and LOGIN_MAX_FAILURES_PER_IP (20 by default) failures for LOGIN_LOCKOUT_MINUTES (15 by default), doubling with every further failure
+const LOGIN_LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 15);
+export const UserLoginThrottle = new ThrottlingConcept("loginfailures", Number(process.env.LOGIN_MAX_FAILURES ?? 5), LOGIN_LOCKOUT_MINUTES);
+export const IpLoginThrottle = new ThrottlingConcept("loginfailures_ip", Number(process.env.LOGIN_MAX_FAILURES_PER_IP ?? 20), LOGIN_LOCKOUT_MINUTES);
+// personal API tokens that scripts can send instead of a session cookie
+export const ApiToken = new TokenConcept("apitokens");
+// password reset tokens, which can be used once within PASSWORD_RESET_MINUTES (60 by default)
+const PASSWORD_RESET_MINUTES = numberSetting("PASSWORD_RESET_MINUTES", 60, 1);
+export const PasswordReset = new ResettingConcept("passwordresets", PASSWORD_RESET_MINUTES);
+// password reset requests per username and per IP address, which are refused after PASSWORD_RESET_MAX_REQUESTS (3 by default)
+// and PASSWORD_RESET_MAX_REQUESTS_PER_IP (10 by default) requests within PASSWORD_RESET_MINUTES
+export const UserResetLimit = new RateLimitingConcept("resetrequests", numberSetting("PASSWORD_RESET_MAX_REQUESTS", 3, 1), PASSWORD_RESET_MINUTES);
+export const IpResetLimit = new RateLimitingConcept("resetrequests_ip", numberSetting("PASSWORD_RESET_MAX_REQUESTS_PER_IP", 10, 1), PASSWORD_RESET_MINUTES);
+// mail is appended to MAIL_FILE if it is set, and printed to the console otherwise
+export const Mailer: MailTransport = process.env.MAIL_FILE ? new FileTransport(process.env.MAIL_FILE) : new ConsoleTransport();
 export const Posting = new PostingConcept("posts");
 export const Friending = new FriendingConcept("friends");
 
-export const Project = new ProjectConcept("projects");
+// archived projects can be deleted permanently after PROJECT_DELETION_GRACE_DAYS (30 by default)
+export const Project = new ProjectConcept("projects", numberSetting("PROJECT_DELETION_GRACE_DAYS", 30));
 export const ProjectMember = new GroupItemConcept("projectmembers");
+// role of each project member: owner, manager, contributor or viewer
+export const ProjectRole = new RoleConcept("projectroles");
+// pending invitations to join a project, which expire after INVITE_EXPIRY_HOURS (one week by default)
+export const ProjectInvite = new InvitingConcept("projectinvites", numberSetting("INVITE_EXPIRY_HOURS", 168, 1));
+// history of changes to each project and its tasks
+export const Activity = new ActivityConcept("activity");
+// reusable task lists that users save from their projects
+export const ProjectTemplate = new TemplatingConcept("projecttemplates");
+// ordered kanban status columns of each project
+export const Status = new StatusConcept("statuses");
+// goals of each project, each with an optional target date
+export const Milestone = new MilestoneConcept("milestones");
+// "Group" = Milestone, "Item" = task, in the order the tasks were attached
+export const MilestoneTask = new GroupItemConcept("milestonetasks");
+// plant of each project, which grows with completed tasks and wilts when tasks are overdue
+// or the project has been idle for PLANT_WILT_DAYS (7 by default)
+export const Plant = new PlantingConcept("plants", numberSetting("PLANT_WILT_DAYS", 7, 1));
 
 // task stores description, associated project, and completion
 export const Task = new TaskingConcept("tasks");
 // "Group" = Task, "Item" = assignee
 export const TaskAssignee = new GroupItemConcept("taskassignee");
-// TODO: linking functionality?
-// export const TaskLink = new GroupItemConcept("tasklink");
+// series of recurring tasks, each occurrence is a task with `series` set
+export const TaskSeries = new RecurringConcept("taskseries");
+// "Dependent" task is blocked by its "dependency" task
+export const TaskDependency = new DependingConcept("taskdependencies");
+// comments left by project members on tasks
+export const TaskComment = new CommentingConcept("taskcomments");
+
+/**
+ * Read a numeric setting from the environment, or `fallback` if it is not set.
+ * A value that is not a number of at least `min` fails at startup, instead of quietly turning off what it configures.
+ */
+function numberSetting(name: string, fallback: number, min = 0) {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min) {
+    throw new Error(`${name} must be a number of at least ${min}, not "${raw}"!`);
+  }
+  return value;
+}
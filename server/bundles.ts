@@ -0,0 +1,185 @@
+import { z } from "zod";
+
+import { BadValuesError } from "./concepts/errors";
+import { ROLES } from "./concepts/roles";
+
+/**
+ * Version of the project bundle format written by `GET /project/export`.
+ * Bump it whenever the format changes in a way that older imports cannot read.
+ */
+export const PROJECT_BUNDLE_VERSION = 1;
+
+// tasks and recurring series refer to each other by keys that are unique within a bundle
+const key = z.string().min(1);
+const date = z.coerce.date();
+
+const ProjectBundleSchema = z
+  .object({
+    version: z.literal(PROJECT_BUNDLE_VERSION),
+    exportedAt: date,
+    project: z.object({ name: z.string().min(1) }),
+    // status columns in order
+    statuses: z.array(z.object({ name: z.string().min(1), terminal: z.boolean() })),
+    members: z.array(z.object({ username: z.string().min(1), role: z.enum(ROLES) })),
+    series: z.array(
+      z.object({
+        key,
+        description: z.string(),
+        rule: z.object({
+          frequency: z.enum(["daily", "weekly", "monthly"]),
+          interval: z.number().int().positive().optional(),
+          weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+          dayOfMonth: z.number().int().min(1).max(31).optional(),
+        }),
+        active: z.boolean(),
+        latest: key.optional(),
+      }),
+    ),
+    // tasks in board order
+    tasks: z.array(
+      z.object({
+        key,
+        description: z.string(),
+        completion: z.boolean(),
+        start: date.optional(),
+        due: date.optional(),
+        status: z.string(),
+        checklist: z.array(z.object({ description: z.string().min(1), completion: z.boolean() })),
+        autoComplete: z.boolean(),
+        // usernames
+        assignees: z.array(z.string()),
+        series: key.optional(),
+      }),
+    ),
+    dependencies: z.array(z.object({ task: key, blockedBy: key })),
+    comments: z.array(z.object({ task: key, author: z.string(), content: z.string().min(1) })),
+    // bundles exported before milestones existed have none
+    milestones: z.array(z.object({ name: z.string().min(1), target: date.optional(), tasks: z.array(key) })).default([]),
+  })
+  .superRefine((bundle, ctx) => {
+    const problem = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+
+    const statuses = new Set(bundle.statuses.map((status) => status.name));
+    if (statuses.size !== bundle.statuses.length) {
+      problem("Status names must be unique.");
+    }
+    if (bundle.statuses.filter((status) => status.terminal).length !== 1) {
+      problem("Exactly one status must be terminal.");
+    }
+    const tasks = new Set(bundle.tasks.map((task) => task.key));
+    if (tasks.size !== bundle.tasks.length) {
+      problem("Task keys must be unique.");
+    }
+    const series = new Set(bundle.series.map((series) => series.key));
+    if (series.size !== bundle.series.length) {
+      problem("Series keys must be unique.");
+    }
+
+    for (const task of bundle.tasks) {
+      if (!statuses.has(task.status)) {
+        problem(`Task ${task.key} is in unknown status ${task.status}.`);
+      }
+      if (task.series !== undefined && !series.has(task.series)) {
+        problem(`Task ${task.key} belongs to unknown series ${task.series}.`);
+      }
+    }
+    for (const { key, latest } of bundle.series) {
+      if (latest !== undefined && !tasks.has(latest)) {
+        problem(`Series ${key} has unknown latest task ${latest}.`);
+      }
+    }
+    const pairs = new Set<string>();
+    const blockers = new Map<string, string[]>();
+    for (const { task, blockedBy } of bundle.dependencies) {
+      if (!tasks.has(task) || !tasks.has(blockedBy)) {
+        problem(`Dependency of ${task} on ${blockedBy} refers to an unknown task.`);
+      }
+      if (task === blockedBy) {
+        problem(`Task ${task} cannot depend on itself.`);
+        continue;
+      }
+      const pair = JSON.stringify([task, blockedBy]);
+      if (pairs.has(pair)) {
+        problem(`Dependency of ${task} on ${blockedBy} is listed more than once.`);
+      }
+      pairs.add(pair);
+      blockers.set(task, [...(blockers.get(task) ?? []), blockedBy]);
+    }
+    const cycle = findCycle(blockers);
+    if (cycle) {
+      problem(`Dependencies form a cycle: ${cycle.join(" -> ")}.`);
+    }
+    for (const { task } of bundle.comments) {
+      if (!tasks.has(task)) {
+        problem(`Comment refers to unknown task ${task}.`);
+      }
+    }
+    if (new Set(bundle.milestones.map((milestone) => milestone.name)).size !== bundle.milestones.length) {
+      problem("Milestone names must be unique.");
+    }
+    const attached = bundle.milestones.flatMap((milestone) => milestone.tasks);
+    if (new Set(attached).size !== attached.length) {
+      problem("A task can belong to at most one milestone.");
+    }
+    for (const task of attached) {
+      if (!tasks.has(task)) {
+        problem(`Milestone refers to unknown task ${task}.`);
+      }
+    }
+  });
+
+export type ProjectBundle = z.infer<typeof ProjectBundleSchema>;
+
+/**
+ * Check that `bundle` is a valid project bundle.
+ * @returns the bundle, with dates parsed
+ */
+export function parseProjectBundle(bundle: unknown): ProjectBundle {
+  if (typeof bundle === "string") {
+    try {
+      bundle = JSON.parse(bundle);
+    } catch {
+      throw new BadValuesError("Project bundle is not valid JSON!");
+    }
+  }
+  const parsed = ProjectBundleSchema.safeParse(bundle);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+    throw new BadValuesError(`Invalid project bundle! ${issues.join(" ")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Find a cycle in the dependencies of a bundle, given the tasks that block each task.
+ * @returns the tasks along the cycle, starting and ending with the same task, or `undefined` if there is none
+ */
+function findCycle(blockers: Map<string, string[]>) {
+  const done = new Set<string>();
+  const path: string[] = [];
+  const visit = (task: string): string[] | undefined => {
+    if (path.includes(task)) {
+      return [...path.slice(path.indexOf(task)), task];
+    }
+    if (done.has(task)) {
+      return undefined;
+    }
+    path.push(task);
+    for (const blocker of blockers.get(task) ?? []) {
+      const cycle = visit(blocker);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    done.add(task);
+    return undefined;
+  };
+  for (const task of blockers.keys()) {
+    const cycle = visit(task);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,64 @@
+import { Filter, ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { BadValuesError } from "./errors";
+
+export interface ActivityDoc extends BaseDoc {
+  project: ObjectId;
+  actor: ObjectId;
+  // what happened, e.g. "task.rename" or "member.remove"
+  action: string;
+  target: ObjectId;
+  // values of what changed, before and after the action
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * concept: Activity [Project, Actor, Target]
+ * records who changed what in a project, and when
+ */
+export default class ActivityConcept {
+  public readonly activities: DocCollection<ActivityDoc>;
+
+  constructor(collectionName: string) {
+    this.activities = new DocCollection<ActivityDoc>(collectionName);
+
+    // Create index to page through the activity of a project from newest to oldest
+    void this.activities.collection.createIndex({ project: 1, _id: -1 });
+  }
+
+  async record(project: ObjectId, actor: ObjectId, action: string, target: ObjectId, before?: Record<string, unknown>, after?: Record<string, unknown>) {
+    await this.activities.createOne({ project, actor, action, target, ...(before ? { before } : {}), ...(after ? { after } : {}) });
+    return { msg: "Activity recorded!" };
+  }
+
+  // get the activity of a project, newest first, one page at a time
+  // `cursor` is the `next` value returned with the previous page
+  async getForProject(project: ObjectId, cursor?: string, limit = DEFAULT_PAGE_SIZE) {
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new BadValuesError(`Limit must be between 1 and ${MAX_PAGE_SIZE}!`);
+    }
+    if (cursor && !ObjectId.isValid(cursor)) {
+      throw new BadValuesError("Invalid cursor!");
+    }
+    const filter: Filter<ActivityDoc> = cursor ? { project, _id: { $lt: new ObjectId(cursor) } } : { project };
+    const page = await this.activities.readMany(filter, { sort: { _id: -1 }, limit: limit + 1 });
+    const activities = page.slice(0, limit);
+    const next = page.length > limit ? activities[activities.length - 1]._id.toString() : undefined;
+    return { activities, next };
+  }
+
+  // get the most recent activity in a project
+  async getLatest(project: ObjectId) {
+    return await this.activities.readOne({ project }, { sort: { _id: -1 } });
+  }
+
+  async deleteForProject(project: ObjectId) {
+    await this.activities.deleteMany({ project });
+    return { msg: "Activity for project successfully deleted." };
+  }
+}
@@ -1,37 +1,64 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
 import { ObjectId } from "mongodb";
 import DocCollection, { BaseDoc } from "../framework/doc";
 import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
 export interface UserDoc extends BaseDoc {
   username: string;
+  // salted hash of the password, see `hashPassword`
+  // (users created before passwords were hashed have the password itself until they next log in)
   password: string;
+  // where mail for the user, like password resets, is sent; only the user themselves can see it
+  email?: string;
 }
 
+export interface PasswordPolicy {
+  minLength: number;
+  // how many of lowercase letters, uppercase letters, digits and other characters a password has to mix
+  minClasses: number;
+}
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/];
+
+// scrypt parameters for new hashes; hashes made with other parameters are redone on the next login
+const SCRYPT = { N: 16384, r: 8, p: 1 };
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
 /**
  * concept: Authenticating
  */
 export default class AuthenticatingConcept {
   public readonly users: DocCollection<UserDoc>;
+  // hash of a random password, checked when a username does not exist, so that the answer takes as long as for a wrong password
+  private readonly dummyHash = this.hashPassword(randomBytes(SALT_BYTES).toString("base64"));
 
   /**
-   * Make an instance of Authenticating.
+   * Make an instance of Authenticating that only accepts new passwords following `policy`.
+   * Passwords may never be the same as the username.
    */
-  constructor(collectionName: string) {
+  constructor(
+    collectionName: string,
+    private readonly policy: PasswordPolicy,
+  ) {
     this.users = new DocCollection<UserDoc>(collectionName);
 
     // Create index on username to make search queries for it performant
     void this.users.collection.createIndex({ username: 1 });
   }
 
-  async create(username: string, password: string) {
+  async create(username: string, password: string, email?: string) {
     await this.assertGoodCredentials(username, password);
-    const _id = await this.users.createOne({ username, password });
-    return { msg: "User created successfully!", user: await this.users.readOne({ _id }) };
+    if (email) {
+      this.assertValidEmail(email);
+    }
+    const _id = await this.users.createOne({ username, password: await this.hashPassword(password), ...(email ? { email } : {}) });
+    return { msg: "User created successfully!", user: await this.getUserById(_id) };
   }
 
-  private redactPassword(user: UserDoc): Omit<UserDoc, "password"> {
+  private redact(user: UserDoc): Omit<UserDoc, "password" | "email"> {
     // eslint-disable-next-line
-    const { password, ...rest } = user;
+    const { password, email, ...rest } = user;
     return rest;
   }
 
@@ -40,7 +67,7 @@ export default class AuthenticatingConcept {
     if (user === null) {
       throw new NotFoundError(`User not found!`);
     }
-    return this.redactPassword(user);
+    return this.redact(user);
   }
 
   async getUserByUsername(username: string) {
@@ -48,7 +75,7 @@ export default class AuthenticatingConcept {
     if (user === null) {
       throw new NotFoundError(`User not found!`);
     }
-    return this.redactPassword(user);
+    return this.redact(user);
   }
 
   async idsToUsernames(ids: ObjectId[]) {
@@ -59,21 +86,52 @@ export default class AuthenticatingConcept {
     return ids.map((id) => idToUser.get(id.toString())?.username ?? "DELETED_USER");
   }
 
+  // map each username to the id of the user with that name, leaving out names that no user has
+  async usernamesToIds(usernames: string[]) {
+    const users = await this.users.readMany({ username: { $in: usernames } });
+    return new Map(users.map((user) => [user.username, user._id]));
+  }
+
   async getUsers(username?: string) {
     // If username is undefined, return all users by applying empty filter
     const filter = username ? { username } : {};
-    const users = (await this.users.readMany(filter)).map(this.redactPassword);
+    const users = (await this.users.readMany(filter)).map(this.redact);
     return users;
   }
 
+  // passwords stored in plaintext or hashed with outdated parameters are rehashed once they are verified
   async authenticate(username: string, password: string) {
-    const user = await this.users.readOne({ username, password });
-    if (!user) {
+    const user = await this.users.readOne({ username });
+    const check = await this.verifyPassword(password, user ? user.password : await this.dummyHash);
+    if (!user || !check.valid) {
       throw new NotAllowedError("Username or password is incorrect.");
     }
+    if (check.outdated) {
+      await this.users.partialUpdateOne({ _id: user._id }, { password: await this.hashPassword(password) });
+    }
     return { msg: "Successfully authenticated.", _id: user._id };
   }
 
+  async getEmail(_id: ObjectId) {
+    const user = await this.users.readOne({ _id });
+    if (user === null) {
+      throw new NotFoundError(`User not found!`);
+    }
+    return user.email;
+  }
+
+  // an empty email removes it
+  async updateEmail(_id: ObjectId, currentPassword: string, email?: string) {
+    await this.assertCurrentPassword(_id, currentPassword);
+    if (!email) {
+      await this.users.unsetOne({ _id }, ["email"]);
+      return { msg: "Email removed!" };
+    }
+    this.assertValidEmail(email);
+    await this.users.partialUpdateOne({ _id }, { email });
+    return { msg: "Email updated successfully!" };
+  }
+
   async updateUsername(_id: ObjectId, username: string) {
     await this.assertUsernameUnique(username);
     await this.users.partialUpdateOne({ _id }, { username });
@@ -81,16 +139,23 @@ export default class AuthenticatingConcept {
   }
 
   async updatePassword(_id: ObjectId, currentPassword: string, newPassword: string) {
+    const user = await this.assertCurrentPassword(_id, currentPassword);
+    this.assertPasswordAllowed(user.username, newPassword);
+
+    await this.users.partialUpdateOne({ _id }, { password: await this.hashPassword(newPassword) });
+    return { msg: "Password updated successfully!" };
+  }
+
+  // set a new password without the current one, once the user has proven who they are some other way
+  async resetPassword(_id: ObjectId, newPassword: string) {
     const user = await this.users.readOne({ _id });
     if (!user) {
       throw new NotFoundError("User not found");
     }
-    if (user.password !== currentPassword) {
-      throw new NotAllowedError("The given current password is wrong!");
-    }
+    this.assertPasswordAllowed(user.username, newPassword);
 
-    await this.users.partialUpdateOne({ _id }, { password: newPassword });
-    return { msg: "Password updated successfully!" };
+    await this.users.partialUpdateOne({ _id }, { password: await this.hashPassword(newPassword) });
+    return { msg: "Password reset successfully!" };
   }
 
   async delete(_id: ObjectId) {
@@ -105,16 +170,87 @@ export default class AuthenticatingConcept {
     }
   }
 
+  // hash a password with a random salt, as `scrypt$N$r$p$salt$key` with salt and key in base64
+  private async hashPassword(password: string) {
+    const salt = randomBytes(SALT_BYTES);
+    const key = await this.deriveKey(password, salt, SCRYPT);
+    return ["scrypt", SCRYPT.N, SCRYPT.r, SCRYPT.p, salt.toString("base64"), key.toString("base64")].join("$");
+  }
+
+  // check a password against what is stored for a user
+  // `outdated` is set if what is stored should be replaced by a new hash
+  private async verifyPassword(password: string, stored: string) {
+    const [scheme, N, r, p, salt, key] = stored.split("$");
+    if (scheme !== "scrypt" || key === undefined) {
+      // stored before passwords were hashed; compare digests, which have the same length, in constant time
+      const digest = (text: string) => createHash("sha256").update(text).digest();
+      return { valid: timingSafeEqual(digest(password), digest(stored)), outdated: true };
+    }
+    const expected = Buffer.from(key, "base64");
+    const params = { N: Number(N), r: Number(r), p: Number(p) };
+    const actual = await this.deriveKey(password, Buffer.from(salt, "base64"), params, expected.length);
+    const outdated = params.N !== SCRYPT.N || params.r !== SCRYPT.r || params.p !== SCRYPT.p;
+    return { valid: timingSafeEqual(actual, expected), outdated };
+  }
+
+  private deriveKey(password: string, salt: Buffer, params: typeof SCRYPT, length = KEY_BYTES) {
+    return new Promise<Buffer>((resolve, reject) => {
+      // scrypt needs a little over 128 * N * r bytes of memory
+      scrypt(password, salt, length, { ...params, maxmem: 256 * params.N * params.r }, (err, key) => (err ? reject(err) : resolve(key)));
+    });
+  }
+
   private async assertGoodCredentials(username: string, password: string) {
     if (!username || !password) {
       throw new BadValuesError("Username and password must be non-empty!");
     }
+    this.assertPasswordAllowed(username, password);
     await this.assertUsernameUnique(username);
   }
 
+  // changes to what secures the account, like its password or recovery email, need the current password
+  private async assertCurrentPassword(_id: ObjectId, password: string) {
+    const user = await this.users.readOne({ _id });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    if (!(await this.verifyPassword(password, user.password)).valid) {
+      throw new NotAllowedError("The given current password is wrong!");
+    }
+    return user;
+  }
+
+  private assertPasswordAllowed(username: string, password: string) {
+    const problems = [];
+    if (password.length < this.policy.minLength) {
+      problems.push(`be at least ${this.policy.minLength} characters long`);
+    }
+    if (CHARACTER_CLASSES.filter((characters) => characters.test(password)).length < this.policy.minClasses) {
+      problems.push(`mix at least ${this.policy.minClasses} of lowercase letters, uppercase letters, digits and symbols`);
+    }
+    if (password.toLowerCase() === username.toLowerCase()) {
+      problems.push("differ from the username");
+    }
+    if (problems.length > 0) {
+      throw new PasswordPolicyError(problems);
+    }
+  }
+
+  private assertValidEmail(email: string) {
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      throw new BadValuesError(`${email} is not a valid email address!`);
+    }
+  }
+
   private async assertUsernameUnique(username: string) {
     if (await this.users.readOne({ username })) {
       throw new NotAllowedError(`User with username ${username} already exists!`);
     }
   }
 }
+
+export class PasswordPolicyError extends BadValuesError {
+  constructor(public readonly problems: string[]) {
+    super("Password must {0}!", problems.join(", "));
+  }
+}
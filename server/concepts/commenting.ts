@@ -0,0 +1,90 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+export interface CommentDoc extends BaseDoc {
+  author: ObjectId;
+  target: ObjectId;
+  content: string;
+}
+
+/**
+ * concept: Commenting [Author, Target]
+ */
+export default class CommentingConcept {
+  public readonly comments: DocCollection<CommentDoc>;
+
+  /**
+   * Make an instance of Commenting.
+   */
+  constructor(collectionName: string) {
+    this.comments = new DocCollection<CommentDoc>(collectionName);
+  }
+
+  async create(author: ObjectId, target: ObjectId, content: string) {
+    this.assertContentNotEmpty(content);
+    const _id = await this.comments.createOne({ author, target, content });
+    return { msg: "Comment successfully created!", comment: await this.comments.readOne({ _id }) };
+  }
+
+  async getComment(_id: ObjectId) {
+    const comment = await this.comments.readOne({ _id });
+    if (!comment) {
+      throw new NotFoundError(`Comment ${_id} does not exist!`);
+    }
+    return comment;
+  }
+
+  // comments on a target, oldest first
+  async getByTarget(target: ObjectId) {
+    return await this.comments.readMany({ target }, { sort: { _id: 1 } });
+  }
+
+  async update(_id: ObjectId, content: string) {
+    this.assertContentNotEmpty(content);
+    await this.comments.partialUpdateOne({ _id }, { content });
+    return { msg: "Comment successfully updated!" };
+  }
+
+  async delete(_id: ObjectId) {
+    await this.comments.deleteOne({ _id });
+    return { msg: "Comment deleted successfully!" };
+  }
+
+  // delete all comments on a target
+  // (use when deleting the target)
+  async deleteByTarget(target: ObjectId) {
+    await this.comments.deleteMany({ target });
+    return { msg: "Comments successfully deleted!" };
+  }
+
+  // delete all comments of an author
+  // (use when deleting the author)
+  async deleteByAuthor(author: ObjectId) {
+    const { deletedCount } = await this.comments.deleteMany({ author });
+    return { msg: "Comments successfully deleted!", deleted: deletedCount };
+  }
+
+  async assertAuthorIsUser(_id: ObjectId, user: ObjectId) {
+    const comment = await this.getComment(_id);
+    if (comment.author.toString() !== user.toString()) {
+      throw new CommentAuthorNotMatchError(user, _id);
+    }
+  }
+
+  private assertContentNotEmpty(content: string) {
+    if (!content || !content.trim()) {
+      throw new BadValuesError("Comment must not be empty!");
+    }
+  }
+}
+
+export class CommentAuthorNotMatchError extends NotAllowedError {
+  constructor(
+    public readonly author: ObjectId,
+    public readonly _id: ObjectId,
+  ) {
+    super("{0} is not the author of comment {1}!", author, _id);
+  }
+}
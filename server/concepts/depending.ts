@@ -0,0 +1,125 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { NotAllowedError, NotFoundError } from "./errors";
+
+export interface DependencyDoc extends BaseDoc {
+  // `dependent` is blocked by `dependency`
+  dependent: ObjectId;
+  dependency: ObjectId;
+}
+
+/**
+ * concept: Depending [Item]
+ * stores directed "blocked by" links between items, which never form a cycle
+ */
+export default class DependingConcept {
+  public readonly dependencies: DocCollection<DependencyDoc>;
+
+  constructor(collectionName: string) {
+    this.dependencies = new DocCollection<DependencyDoc>(collectionName);
+  }
+
+  // make `dependent` blocked by `dependency`
+  // rejects links that would close a cycle
+  async addDependency(dependent: ObjectId, dependency: ObjectId) {
+    if (dependent.toString() === dependency.toString()) {
+      throw new DependencyCycleError(dependent, dependency);
+    }
+    if (await this.dependencies.readOne({ dependent, dependency })) {
+      throw new NotAllowedError(`${dependent} already depends on ${dependency}!`);
+    }
+    // the new link closes a cycle iff `dependency` already (transitively) depends on `dependent`
+    if (await this.dependsOn(dependency, dependent)) {
+      throw new DependencyCycleError(dependent, dependency);
+    }
+    await this.dependencies.createOne({ dependent, dependency });
+    return { msg: "Dependency successfully added!" };
+  }
+
+  // remove the link between `dependent` and `dependency`
+  async removeDependency(dependent: ObjectId, dependency: ObjectId) {
+    const deleted = await this.dependencies.deleteOne({ dependent, dependency });
+    if (deleted.deletedCount === 0) {
+      throw new NotFoundError(`${dependent} does not depend on ${dependency}!`);
+    }
+    return { msg: "Dependency successfully removed!" };
+  }
+
+  // get the items that `dependent` is blocked by
+  async getDependencies(dependent: ObjectId) {
+    return (await this.dependencies.readMany({ dependent })).map((link) => link.dependency);
+  }
+
+  // get the items that are blocked by `dependency`
+  async getDependents(dependency: ObjectId) {
+    return (await this.dependencies.readMany({ dependency })).map((link) => link.dependent);
+  }
+
+  // get all links whose dependent is one of `items`
+  async getDependenciesForItems(items: ObjectId[]) {
+    return await this.dependencies.readMany({ dependent: { $in: items } });
+  }
+
+  // delete all links to or from an item
+  // (use when deleting an item)
+  async deleteAllForItem(item: ObjectId) {
+    await this.dependencies.deleteMany({ $or: [{ dependent: item }, { dependency: item }] });
+    return { msg: "Deleted all dependencies of item!" };
+  }
+
+  // order `items` so that every item comes after the items it depends on
+  // only links between the given items are taken into account
+  sortTopologically(items: ObjectId[], links: DependencyDoc[]) {
+    const remaining = new Map(items.map((item) => [item.toString(), 0]));
+    const dependents = new Map<string, string[]>();
+    for (const link of links) {
+      const [dependent, dependency] = [link.dependent.toString(), link.dependency.toString()];
+      if (!remaining.has(dependent) || !remaining.has(dependency)) {
+        continue;
+      }
+      remaining.set(dependent, remaining.get(dependent)! + 1);
+      dependents.set(dependency, [...(dependents.get(dependency) ?? []), dependent]);
+    }
+
+    // Kahn's algorithm: repeatedly emit items that have no unresolved dependencies
+    const ready = items.map((item) => item.toString()).filter((item) => remaining.get(item) === 0);
+    const order: string[] = [];
+    while (ready.length > 0) {
+      const item = ready.shift()!;
+      order.push(item);
+      for (const dependent of dependents.get(item) ?? []) {
+        const count = remaining.get(dependent)! - 1;
+        remaining.set(dependent, count);
+        if (count === 0) {
+          ready.push(dependent);
+        }
+      }
+    }
+    return order.map((item) => new ObjectId(item));
+  }
+
+  // check whether `from` transitively depends on `to`
+  private async dependsOn(from: ObjectId, to: ObjectId) {
+    const visited = new Set([from.toString()]);
+    let frontier = [from];
+    while (frontier.length > 0) {
+      const next = (await this.getDependenciesForItems(frontier)).map((link) => link.dependency);
+      if (next.some((item) => item.toString() === to.toString())) {
+        return true;
+      }
+      frontier = next.filter((item) => !visited.has(item.toString()));
+      frontier.forEach((item) => visited.add(item.toString()));
+    }
+    return false;
+  }
+}
+
+export class DependencyCycleError extends NotAllowedError {
+  constructor(
+    public readonly dependent: ObjectId,
+    public readonly dependency: ObjectId,
+  ) {
+    super("Making {0} depend on {1} would create a dependency cycle!", dependent, dependency);
+  }
+}
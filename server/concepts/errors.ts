@@ -31,3 +31,11 @@ export class NotAllowedError extends FormattableError {
 export class NotFoundError extends FormattableError {
   public readonly HTTP_CODE = 404;
 }
+
+/**
+ * Corresponds to an action attempted too often in too short a time.
+ * If this action was a HTTP request, status code for this error would be 429 Too Many Requests.
+ */
+export class TooManyRequestsError extends FormattableError {
+  public readonly HTTP_CODE = 429;
+}
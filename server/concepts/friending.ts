@@ -70,6 +70,14 @@ export default class FriendingConcept {
     return { msg: "Unfriended!" };
   }
 
+  // delete all friendships and friend requests of a user
+  // (use when deleting the user)
+  async deleteAllForUser(user: ObjectId) {
+    const friendships = await this.friends.deleteMany({ $or: [{ user1: user }, { user2: user }] });
+    const requests = await this.requests.deleteMany({ $or: [{ from: user }, { to: user }] });
+    return { msg: "Deleted all friendships and requests of user!", friendships: friendships.deletedCount, requests: requests.deletedCount };
+  }
+
   async getFriends(user: ObjectId) {
     const friendships = await this.friends.readMany({
       $or: [{ user1: user }, { user2: user }],
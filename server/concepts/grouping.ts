@@ -29,9 +29,9 @@ export default class GroupItemConcept {
     return { msg: "Removed item from group!" };
   }
 
-  // get all items in a group
+  // get all items in a group, in the order they were added
   async getItemsInGroup(group: ObjectId) {
-    const items = await this.groupitems.readMany({ group }, { projection: { item: 1 } });
+    const items = await this.groupitems.readMany({ group }, { projection: { item: 1 }, sort: { _id: 1 } });
 
     return items;
   }
@@ -51,8 +51,35 @@ export default class GroupItemConcept {
   // delete item from all groups that it is in
   // use when deleting an item
   async deleteItemFromAllGroups(item: ObjectId) {
-    await this.groupitems.deleteMany({ item });
-    return { msg: "Deleted all instances of item!" };
+    const { deletedCount } = await this.groupitems.deleteMany({ item });
+    return { msg: "Deleted all instances of item!", deleted: deletedCount };
+  }
+
+  // remove an item from each of `groups` that it is in
+  async removeItemFromGroups(groups: ObjectId[], item: ObjectId) {
+    const { deletedCount } = await this.groupitems.deleteMany({ group: { $in: groups }, item });
+    return { msg: "Removed item from groups!", deleted: deletedCount };
+  }
+
+  // count how many of `groups` each item is in, most first
+  async countGroupsPerItem(groups: ObjectId[]) {
+    return await this.groupitems.aggregate<{ item: ObjectId; count: number }>([
+      { $match: { group: { $in: groups } } },
+      { $group: { _id: "$item", count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $project: { _id: 0, item: "$_id", count: 1 } },
+    ]);
+  }
+
+  // count how many of `groups` have at least one item
+  async countNonEmptyGroups(groups: ObjectId[]) {
+    const [result] = await this.groupitems.aggregate<{ count: number }>([{ $match: { group: { $in: groups } } }, { $group: { _id: "$group" } }, { $count: "count" }]);
+    return result?.count ?? 0;
+  }
+
+  // check whether an item is in a given group
+  async isItemInGroup(group: ObjectId, item: ObjectId) {
+    return (await this.groupitems.readOne({ group, item })) !== null;
   }
 
   // assert that an item is in a given group
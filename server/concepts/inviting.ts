@@ -0,0 +1,120 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { NotAllowedError, NotFoundError } from "./errors";
+
+export interface InviteDoc extends BaseDoc {
+  scope: ObjectId;
+  from: ObjectId;
+  to: ObjectId;
+  // role the invitee gets once they accept
+  role: string;
+  status: "pending" | "rejected" | "accepted";
+  // pending invites can no longer be accepted after this
+  expires: Date;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * concept: Inviting [Scope, User]
+ * invitations for users to join a scope, which the invitee has to accept
+ */
+export default class InvitingConcept {
+  public readonly invites: DocCollection<InviteDoc>;
+
+  /**
+   * Make an instance of Inviting whose invites expire `expiryHours` after being sent.
+   */
+  constructor(
+    collectionName: string,
+    private readonly expiryHours: number,
+  ) {
+    this.invites = new DocCollection<InviteDoc>(collectionName);
+  }
+
+  async sendInvite(scope: ObjectId, from: ObjectId, to: ObjectId, role: string) {
+    if (await this.invites.readOne({ scope, to, status: "pending", expires: { $gt: new Date() } })) {
+      throw new InviteAlreadyExistsError(to, scope);
+    }
+    // an expired invite is replaced by the new one
+    await this.invites.deleteMany({ scope, to, status: "pending" });
+    const _id = await this.invites.createOne({ scope, from, to, role, status: "pending", expires: new Date(Date.now() + this.expiryHours * HOUR) });
+    return { msg: "Sent invite!", invite: await this.invites.readOne({ _id }) };
+  }
+
+  async getInvite(_id: ObjectId) {
+    const invite = await this.invites.readOne({ _id });
+    if (!invite) {
+      throw new NotFoundError(`Invite ${_id} does not exist!`);
+    }
+    return invite;
+  }
+
+  // get the invites a user can still accept, newest first
+  async getPendingForUser(to: ObjectId) {
+    return await this.invites.readMany({ to, status: "pending", expires: { $gt: new Date() } }, { sort: { _id: -1 } });
+  }
+
+  // get the invites to a scope that have not been answered yet and have not expired
+  async getPendingForScope(scope: ObjectId) {
+    return await this.invites.readMany({ scope, status: "pending", expires: { $gt: new Date() } }, { sort: { _id: -1 } });
+  }
+
+  // accept an invite addressed to `to`
+  // returns: the accepted invite
+  async acceptInvite(_id: ObjectId, to: ObjectId) {
+    const invite = await this.getPendingInvite(_id, to);
+    await this.invites.partialUpdateOne({ _id }, { status: "accepted" });
+    return { msg: "Accepted invite!", invite };
+  }
+
+  async rejectInvite(_id: ObjectId, to: ObjectId) {
+    const invite = await this.getPendingInvite(_id, to);
+    await this.invites.partialUpdateOne({ _id }, { status: "rejected" });
+    return { msg: "Rejected invite!", invite };
+  }
+
+  // withdraw an invite that has not been answered yet
+  async cancelInvite(_id: ObjectId) {
+    const invite = await this.invites.popOne({ _id, status: "pending" });
+    if (invite === null) {
+      throw new NotFoundError(`Pending invite ${_id} does not exist!`);
+    }
+    return { msg: "Cancelled invite!", invite };
+  }
+
+  // delete all invites to a scope
+  // (use when deleting the scope)
+  async deleteForScope(scope: ObjectId) {
+    await this.invites.deleteMany({ scope });
+    return { msg: "Deleted all invites of scope!" };
+  }
+
+  // delete all invites sent by or to a user
+  // (use when deleting the user)
+  async deleteForUser(user: ObjectId) {
+    const { deletedCount } = await this.invites.deleteMany({ $or: [{ from: user }, { to: user }] });
+    return { msg: "Deleted all invites of user!", deleted: deletedCount };
+  }
+
+  private async getPendingInvite(_id: ObjectId, to: ObjectId) {
+    const invite = await this.invites.readOne({ _id, to, status: "pending" });
+    if (invite === null) {
+      throw new NotFoundError(`Pending invite ${_id} does not exist!`);
+    }
+    if (invite.expires <= new Date()) {
+      throw new NotAllowedError(`Invite ${_id} has expired! Ask for a new one.`);
+    }
+    return invite;
+  }
+}
+
+export class InviteAlreadyExistsError extends NotAllowedError {
+  constructor(
+    public readonly to: ObjectId,
+    public readonly scope: ObjectId,
+  ) {
+    super("{0} already has a pending invite to {1}!", to, scope);
+  }
+}
@@ -0,0 +1,83 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+export interface MilestoneDoc extends BaseDoc {
+  project: ObjectId;
+  name: string;
+  // when the milestone should be reached
+  target?: Date;
+}
+
+/**
+ * concept: Milestone [Project]
+ * stores named goals of a project, each with an optional target date
+ */
+export default class MilestoneConcept {
+  public readonly milestones: DocCollection<MilestoneDoc>;
+
+  constructor(collectionName: string) {
+    this.milestones = new DocCollection<MilestoneDoc>(collectionName);
+  }
+
+  async create(project: ObjectId, name: string, target?: Date) {
+    await this.assertNameUnique(project, name);
+    const _id = await this.milestones.createOne({ project, name, ...(target ? { target } : {}) });
+    return { msg: "Milestone successfully created!", milestone: await this.milestones.readOne({ _id }) };
+  }
+
+  async getMilestone(_id: ObjectId) {
+    const milestone = await this.milestones.readOne({ _id });
+    if (!milestone) {
+      throw new NotFoundError(`Milestone ${_id} does not exist!`);
+    }
+    return milestone;
+  }
+
+  // get the milestones of a project by target date, those without one last
+  async getMilestonesForProject(project: ObjectId) {
+    const milestones = await this.milestones.readMany({ project }, { sort: { _id: 1 } });
+    const time = (milestone: MilestoneDoc) => milestone.target?.getTime() ?? Infinity;
+    return milestones.sort((a, b) => time(a) - time(b));
+  }
+
+  // change name and/or target date; values that are not given are left unchanged
+  async update(_id: ObjectId, name?: string, target?: Date) {
+    const milestone = await this.getMilestone(_id);
+    const update: Partial<MilestoneDoc> = {};
+    if (name !== undefined && name !== milestone.name) {
+      await this.assertNameUnique(milestone.project, name);
+      update.name = name;
+    }
+    if (target !== undefined) {
+      update.target = target;
+    }
+    await this.milestones.partialUpdateOne({ _id }, update);
+    return { msg: "Milestone successfully updated!", milestone: await this.milestones.readOne({ _id }) };
+  }
+
+  async clearTarget(_id: ObjectId) {
+    await this.milestones.unsetOne({ _id }, ["target"]);
+    return { msg: "Milestone target date cleared." };
+  }
+
+  async delete(_id: ObjectId) {
+    await this.milestones.deleteOne({ _id });
+    return { msg: "Milestone successfully deleted!" };
+  }
+
+  async deleteForProject(project: ObjectId) {
+    await this.milestones.deleteMany({ project });
+    return { msg: "Milestones for project successfully deleted." };
+  }
+
+  private async assertNameUnique(project: ObjectId, name: string) {
+    if (!name) {
+      throw new BadValuesError("Milestone name must be non-empty!");
+    }
+    if (await this.milestones.readOne({ project, name })) {
+      throw new NotAllowedError(`Milestone with name ${name} already exists in this project!`);
+    }
+  }
+}
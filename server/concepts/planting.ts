@@ -0,0 +1,119 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+
+// from youngest to fully grown
+export const STAGES = ["seed", "sprout", "sapling", "bloom", "fruit"] as const;
+export type Stage = (typeof STAGES)[number];
+
+// how many completed items a plant needs to reach each stage
+const GROWTH: Record<Stage, number> = {
+  seed: 0,
+  sprout: 1,
+  sapling: 5,
+  bloom: 15,
+  fruit: 30,
+};
+
+// why a plant wilts: items are overdue, or nothing has happened for too long
+export type WiltReason = "overdue" | "idle";
+
+export interface PlantState {
+  stage: Stage;
+  wilting: boolean;
+  reasons: WiltReason[];
+}
+
+// what a plant grows from
+export interface Growth {
+  completed: number;
+  overdue: number;
+  // when anything last happened to what the plant grows from
+  lastActive: Date;
+}
+
+export interface PlantDoc extends BaseDoc, PlantState {
+  garden: ObjectId;
+}
+
+export interface PlantTransitionDoc extends BaseDoc {
+  garden: ObjectId;
+  from: PlantState;
+  to: PlantState;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const TRANSITION_PAGE_SIZE = 20;
+
+/**
+ * concept: Planting [Garden]
+ * grows a plant for each garden (e.g. a project) from the work done in it, and records how it changes
+ */
+export default class PlantingConcept {
+  public readonly plants: DocCollection<PlantDoc>;
+  public readonly transitions: DocCollection<PlantTransitionDoc>;
+
+  /**
+   * Make an instance of Planting whose plants wilt after `wiltAfterDays` without activity.
+   */
+  constructor(
+    collectionName: string,
+    private readonly wiltAfterDays: number,
+  ) {
+    this.plants = new DocCollection<PlantDoc>(collectionName);
+    this.transitions = new DocCollection<PlantTransitionDoc>(collectionName + "_transitions");
+
+    // Each garden has one plant, even when it is tended by several requests at once
+    void this.plants.collection.createIndex({ garden: 1 }, { unique: true });
+  }
+
+  // bring the plant of a garden up to date with `growth`, planting it if there is none yet
+  // a change of stage or wilting is recorded as a transition
+  // returns: the plant
+  async tend(garden: ObjectId, growth: Growth) {
+    const state = this.grow(growth);
+    const plant = await this.plants.readOne({ garden });
+    if (!plant || !this.sameState(this.toState(plant), state)) {
+      // the plant is updated atomically, so of several requests that tend it at once only the first sees the change
+      const before = await this.plants.updateOneAndRead({ garden }, { $set: state }, { upsert: true, returnDocument: "before" });
+      if (before && !this.sameState(this.toState(before), state)) {
+        await this.transitions.createOne({ garden, from: this.toState(before), to: state });
+      }
+    }
+    // when the plant last changed, so that clients can tell whether to show its transitions
+    const latest = await this.transitions.readOne({ garden }, { sort: { _id: -1 } });
+    return { ...state, changed: latest?.dateCreated };
+  }
+
+  // get the most recent changes of a garden's plant, newest first, optionally only those after `since`
+  async getTransitions(garden: ObjectId, since?: Date) {
+    return await this.transitions.readMany(since ? { garden, dateCreated: { $gt: since } } : { garden }, { sort: { _id: -1 }, limit: TRANSITION_PAGE_SIZE });
+  }
+
+  async deleteForGarden(garden: ObjectId) {
+    await this.plants.deleteOne({ garden });
+    await this.transitions.deleteMany({ garden });
+    return { msg: "Plant successfully deleted." };
+  }
+
+  // the state a plant is in given its growth
+  private grow(growth: Growth): PlantState {
+    const stage = [...STAGES].reverse().find((stage) => growth.completed >= GROWTH[stage])!;
+    const reasons: WiltReason[] = [];
+    if (growth.overdue > 0) {
+      reasons.push("overdue");
+    }
+    if (Date.now() - growth.lastActive.getTime() > this.wiltAfterDays * DAY) {
+      reasons.push("idle");
+    }
+    return { stage, wilting: reasons.length > 0, reasons };
+  }
+
+  private toState(plant: PlantDoc): PlantState {
+    return { stage: plant.stage, wilting: plant.wilting, reasons: plant.reasons };
+  }
+
+  private sameState(a: PlantState, b: PlantState) {
+    return a.stage === b.stage && a.wilting === b.wilting && a.reasons.join() === b.reasons.join();
+  }
+}
@@ -52,6 +52,13 @@ export default class PostingConcept {
     return { msg: "Post deleted successfully!" };
   }
 
+  // delete all posts of an author
+  // (use when deleting the author)
+  async deleteByAuthor(author: ObjectId) {
+    const { deletedCount } = await this.posts.deleteMany({ author });
+    return { msg: "Posts deleted successfully!", deleted: deletedCount };
+  }
+
   async assertAuthorIsUser(_id: ObjectId, user: ObjectId) {
     const post = await this.posts.readOne({ _id });
     if (!post) {
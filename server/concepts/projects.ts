@@ -4,10 +4,15 @@ import DocCollection, { BaseDoc } from "../framework/doc";
 import { NotAllowedError, NotFoundError } from "./errors";
 
 export interface ProjectDoc extends BaseDoc {
+  // the owner of the project
   creator: ObjectId;
   name: string;
+  // when the project was archived; archived projects are read-only
+  archived?: Date;
 }
 
+const DAY = 24 * 60 * 60 * 1000;
+
 /**
  * concept: Project
  * stores metadata associated with a Project
@@ -15,7 +20,13 @@ export interface ProjectDoc extends BaseDoc {
 export default class ProjectConcept {
   public readonly projects: DocCollection<ProjectDoc>;
 
-  constructor(collectionName: string) {
+  /**
+   * Make an instance of Project whose archived projects can be deleted `deletionGraceDays` after being archived.
+   */
+  constructor(
+    collectionName: string,
+    private readonly deletionGraceDays: number,
+  ) {
     this.projects = new DocCollection<ProjectDoc>(collectionName);
   }
 
@@ -37,6 +48,11 @@ export default class ProjectConcept {
     return await this.projects.readMany({ name });
   }
 
+  // get projects by id, leaving out archived ones unless `includeArchived` is set
+  async getProjects(ids: ObjectId[], includeArchived = false) {
+    return await this.projects.readMany({ _id: { $in: ids }, ...(includeArchived ? {} : { archived: { $exists: false } }) });
+  }
+
   // update project name
   async updateProjectName(_id: ObjectId, name: string) {
     await this.assertProjectNameUnique(name);
@@ -45,11 +61,31 @@ export default class ProjectConcept {
     return { msg: "Project name successfully updated!" };
   }
 
-  // update project
+  // update project owner
   async updateProjectCreator(_id: ObjectId, creator: ObjectId) {
     await this.projects.partialUpdateOne({ _id }, { creator });
 
-    return { msg: "Project manager successfully updated!" };
+    return { msg: "Project owner successfully updated!" };
+  }
+
+  // archive project, making it read-only
+  async archive(_id: ObjectId) {
+    const project = await this.getExistingProject(_id);
+    if (project.archived) {
+      throw new NotAllowedError(`Project ${project.name} is already archived!`);
+    }
+    await this.projects.partialUpdateOne({ _id }, { archived: new Date() });
+    return { msg: "Project successfully archived!" };
+  }
+
+  // restore an archived project
+  async restore(_id: ObjectId) {
+    const project = await this.getExistingProject(_id);
+    if (!project.archived) {
+      throw new NotAllowedError(`Project ${project.name} is not archived!`);
+    }
+    await this.projects.unsetOne({ _id }, ["archived"]);
+    return { msg: "Project successfully restored!" };
   }
 
   // delete project
@@ -58,16 +94,31 @@ export default class ProjectConcept {
     return { msg: "Project successfully deleted!" };
   }
 
-  // assert user is creator of a project
-  // _id: project id, user: user we want to check is creator
-  async assertUserIsCreator(_id: ObjectId, user: ObjectId) {
+  async assertNotArchived(_id: ObjectId) {
+    const project = await this.getExistingProject(_id);
+    if (project.archived) {
+      throw new NotAllowedError(`Project ${project.name} is archived and read-only! Restore it first.`);
+    }
+  }
+
+  // assert that a project has been archived for at least the deletion grace period
+  async assertCanBeDeleted(_id: ObjectId) {
+    const project = await this.getExistingProject(_id);
+    if (!project.archived) {
+      throw new NotAllowedError(`Project ${project.name} must be archived before it can be deleted!`);
+    }
+    const deletable = new Date(project.archived.getTime() + this.deletionGraceDays * DAY);
+    if (deletable > new Date()) {
+      throw new NotAllowedError(`Project ${project.name} can only be deleted after ${deletable.toISOString()}!`);
+    }
+  }
+
+  private async getExistingProject(_id: ObjectId) {
     const project = await this.projects.readOne({ _id });
     if (!project) {
       throw new NotFoundError(`Project ${_id} does not exist!`);
     }
-    if (project.creator.toString() !== user.toString()) {
-      throw new UserCreatorNotMatchError(user, _id);
-    }
+    return project;
   }
 
   private async assertProjectNameUnique(name: string) {
@@ -76,12 +127,3 @@ export default class ProjectConcept {
     }
   }
 }
-
-export class UserCreatorNotMatchError extends NotAllowedError {
-  constructor(
-    public readonly creator: ObjectId,
-    public readonly _id: ObjectId,
-  ) {
-    super("{0} is not the creator of project {1}!", creator, _id);
-  }
-}
@@ -0,0 +1,60 @@
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { TooManyRequestsError } from "./errors";
+
+export interface RequestCountDoc extends BaseDoc {
+  key: string;
+  // requests made since `windowStart`
+  requests: number;
+  windowStart: Date;
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * concept: RateLimiting [Key]
+ * counts requests per key (e.g. a username or an IP address) and refuses them once a key made too many within a fixed window
+ */
+export default class RateLimitingConcept {
+  public readonly requests: DocCollection<RequestCountDoc>;
+
+  /**
+   * Make an instance of RateLimiting that allows `maxRequests` requests per key within `windowMinutes` of the first one.
+   */
+  constructor(
+    collectionName: string,
+    private readonly maxRequests: number,
+    private readonly windowMinutes: number,
+  ) {
+    this.requests = new DocCollection<RequestCountDoc>(collectionName);
+
+    // Create index on key to make lookups for it performant
+    void this.requests.collection.createIndex({ key: 1 }, { unique: true });
+  }
+
+  // count a request, refusing it if the key has already used up its requests for the current window
+  // the count is updated atomically, so that requests made at the same time are all counted
+  async recordRequest(key: string) {
+    const now = new Date();
+    // a new window starts with the first request after the previous window is over
+    const expired = { $lte: [{ $ifNull: ["$windowStart", new Date(0)] }, new Date(now.getTime() - this.windowMinutes * MINUTE)] };
+    const record = await this.requests.updateOneAndRead(
+      { key },
+      [{ $set: { requests: { $cond: [expired, 1, { $add: ["$requests", 1] }] }, windowStart: { $cond: [expired, now, "$windowStart"] } } }],
+      { upsert: true },
+    );
+    if (record && record.requests > this.maxRequests) {
+      throw new RequestLimitError(this.maxRequests, this.windowMinutes, new Date(record.windowStart.getTime() + this.windowMinutes * MINUTE));
+    }
+    return { msg: "Request recorded." };
+  }
+}
+
+export class RequestLimitError extends TooManyRequestsError {
+  constructor(
+    public readonly maxRequests: number,
+    public readonly windowMinutes: number,
+    public readonly until: Date,
+  ) {
+    super("Too many requests! At most {0} are allowed within {1} minutes. Try again after {2}.", maxRequests, windowMinutes, until.toISOString());
+  }
+}
@@ -0,0 +1,168 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { BadValuesError, NotFoundError } from "./errors";
+
+export interface RecurrenceRule {
+  frequency: "daily" | "weekly" | "monthly";
+  // repeat every `interval` days/weeks/months (defaults to 1)
+  interval?: number;
+  // weekly: days of the week it repeats on, 0 (Sunday) to 6 (Saturday)
+  weekdays?: number[];
+  // monthly: day of the month it repeats on, clamped to the length of shorter months
+  dayOfMonth?: number;
+}
+
+export interface SeriesDoc extends BaseDoc {
+  project: ObjectId;
+  description: string;
+  rule: RecurrenceRule;
+  active: boolean;
+  // the most recent occurrence; only completing it creates the next one
+  latest?: ObjectId;
+}
+
+/**
+ * concept: Recurring [Project, Occurrence]
+ * stores series of repeating items and computes when their next occurrence is due
+ */
+export default class RecurringConcept {
+  public readonly series: DocCollection<SeriesDoc>;
+
+  constructor(collectionName: string) {
+    this.series = new DocCollection<SeriesDoc>(collectionName);
+  }
+
+  async create(project: ObjectId, description: string, rule: RecurrenceRule) {
+    const _id = await this.series.createOne({ project, description, rule: this.validateRule(rule), active: true });
+    return { msg: "Recurring task successfully created!", series: await this.series.readOne({ _id }) };
+  }
+
+  async getSeries(_id: ObjectId) {
+    const series = await this.series.readOne({ _id });
+    if (!series) {
+      throw new NotFoundError(`Recurring task ${_id} does not exist!`);
+    }
+    return series;
+  }
+
+  async getSeriesForProject(project: ObjectId) {
+    return await this.series.readMany({ project });
+  }
+
+  // change description and/or rule; values that are not given are left unchanged
+  async update(_id: ObjectId, description?: string, rule?: RecurrenceRule) {
+    const update: Partial<SeriesDoc> = {};
+    if (description !== undefined) {
+      update.description = description;
+    }
+    if (rule !== undefined) {
+      update.rule = this.validateRule(rule);
+    }
+    await this.series.partialUpdateOne({ _id }, update);
+    return { msg: "Recurring task successfully updated!" };
+  }
+
+  // stop the series so that no further occurrences are created
+  async stop(_id: ObjectId) {
+    await this.series.partialUpdateOne({ _id }, { active: false });
+    return { msg: "Recurring task stopped." };
+  }
+
+  async setLatest(_id: ObjectId, latest: ObjectId) {
+    await this.series.partialUpdateOne({ _id }, { latest });
+    return { msg: "Latest occurrence updated!" };
+  }
+
+  async deleteForProject(project: ObjectId) {
+    await this.series.deleteMany({ project });
+    return { msg: "Recurring tasks for project successfully deleted." };
+  }
+
+  // whether completing `occurrence` should create the next occurrence of the series
+  shouldContinue(series: SeriesDoc, occurrence: ObjectId) {
+    return series.active && series.latest?.toString() === occurrence.toString();
+  }
+
+  // first date on or after `from` that matches the rule
+  firstOccurrence(rule: RecurrenceRule, from: Date) {
+    switch (rule.frequency) {
+      case "daily":
+        return new Date(from);
+      case "weekly":
+        return this.findDay(from, (day) => rule.weekdays!.includes(day.getDay()));
+      case "monthly":
+        return this.findDay(from, (day) => day.getDate() === this.clampDay(rule.dayOfMonth!, day));
+    }
+  }
+
+  // date of the occurrence that follows the one at `previous`
+  nextOccurrence(rule: RecurrenceRule, previous: Date) {
+    const interval = rule.interval ?? 1;
+    const next = new Date(previous);
+    switch (rule.frequency) {
+      case "daily":
+        next.setDate(previous.getDate() + interval);
+        return next;
+      case "weekly": {
+        // later weekdays of the same week come first, then the first weekday `interval` weeks later
+        const later = rule.weekdays!.find((day) => day > previous.getDay());
+        if (later !== undefined) {
+          next.setDate(previous.getDate() + later - previous.getDay());
+        } else {
+          next.setDate(previous.getDate() - previous.getDay() + 7 * interval + rule.weekdays![0]);
+        }
+        return next;
+      }
+      case "monthly":
+        next.setDate(1);
+        next.setMonth(next.getMonth() + interval);
+        next.setDate(this.clampDay(rule.dayOfMonth!, next));
+        return next;
+    }
+  }
+
+  private validateRule(rule: RecurrenceRule): RecurrenceRule {
+    if (!rule || !["daily", "weekly", "monthly"].includes(rule.frequency)) {
+      throw new BadValuesError("Recurrence frequency must be daily, weekly or monthly!");
+    }
+    const interval = Number(rule.interval ?? 1);
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new BadValuesError("Recurrence interval must be a positive integer!");
+    }
+    if (rule.frequency === "weekly") {
+      const weekdays = (rule.weekdays ?? []).map(Number);
+      if (weekdays.length === 0 || weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+        throw new BadValuesError("Weekly recurrence needs weekdays between 0 (Sunday) and 6 (Saturday)!");
+      }
+      return { frequency: "weekly", interval, weekdays: [...new Set(weekdays)].sort((a, b) => a - b) };
+    }
+    if (rule.frequency === "monthly") {
+      const dayOfMonth = Number(rule.dayOfMonth);
+      if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+        throw new BadValuesError("Monthly recurrence needs a day of the month between 1 and 31!");
+      }
+      return { frequency: "monthly", interval, dayOfMonth };
+    }
+    return { frequency: "daily", interval };
+  }
+
+  // first day on or after `from` (keeping its time of day) that matches
+  // every rule matches within a month, so the search is bounded
+  private findDay(from: Date, matches: (day: Date) => boolean) {
+    for (let i = 0; i <= 31; i++) {
+      const day = new Date(from);
+      day.setDate(from.getDate() + i);
+      if (matches(day)) {
+        return day;
+      }
+    }
+    throw new BadValuesError("Recurrence rule never matches!");
+  }
+
+  // `dayOfMonth`, or the last day of the month of `date` if that month is too short
+  private clampDay(dayOfMonth: number, date: Date) {
+    const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    return Math.min(dayOfMonth, lastDay);
+  }
+}
@@ -0,0 +1,62 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { hashSecret, makeSecret } from "../framework/secrets";
+import { NotAllowedError } from "./errors";
+
+export interface ResetDoc extends BaseDoc {
+  user: ObjectId;
+  // `hashSecret` of the token; the token itself is only mailed to the user
+  hash: string;
+  expires: Date;
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * concept: Resetting [User]
+ * single-use secret tokens that let a user prove who they are once, e.g. to set a new password
+ */
+export default class ResettingConcept {
+  public readonly resets: DocCollection<ResetDoc>;
+
+  /**
+   * Make an instance of Resetting whose tokens expire `expiryMinutes` after being issued.
+   */
+  constructor(
+    collectionName: string,
+    private readonly expiryMinutes: number,
+  ) {
+    this.resets = new DocCollection<ResetDoc>(collectionName);
+
+    // Create index on hash so that redeeming a token finds it quickly
+    void this.resets.collection.createIndex({ hash: 1 }, { unique: true });
+  }
+
+  // issue a token for a user; earlier ones stay valid until one of them is used, so that requests by others cannot void them
+  // returns: the token, which is not stored
+  async issue(user: ObjectId) {
+    const token = makeSecret();
+    const expires = new Date(Date.now() + this.expiryMinutes * MINUTE);
+    await this.resets.createOne({ user, hash: hashSecret(token), expires });
+    return { msg: "Reset token issued!", token, expires };
+  }
+
+  // use up a token, along with all other tokens of its user
+  // returns: the user it was issued for
+  async redeem(token: string) {
+    const reset = await this.resets.popOne({ hash: hashSecret(token) });
+    if (!reset || reset.expires <= new Date()) {
+      throw new NotAllowedError("This reset token is invalid, expired or has already been used!");
+    }
+    await this.resets.deleteMany({ user: reset.user });
+    return reset.user;
+  }
+
+  // delete all tokens of a user
+  // (use when deleting the user)
+  async deleteForUser(user: ObjectId) {
+    const { deletedCount } = await this.resets.deleteMany({ user });
+    return { msg: "Deleted all reset tokens of user!", deleted: deletedCount };
+  }
+}
@@ -0,0 +1,117 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { BadValuesError, NotAllowedError } from "./errors";
+
+// from most to least privileged
+export const ROLES = ["owner", "manager", "contributor", "viewer"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission = "comment" | "createTasks" | "editTasks" | "deleteTasks" | "manageBoard" | "manageMembers" | "manageManagers" | "renameProject" | "transferOwnership" | "deleteProject";
+
+// which roles have each permission; every role can view the scope it belongs to
+const PERMISSIONS: Record<Permission, Role[]> = {
+  comment: ["owner", "manager", "contributor"],
+  createTasks: ["owner", "manager", "contributor"],
+  // edit, assign, complete and move tasks, their checklists and dependencies
+  editTasks: ["owner", "manager", "contributor"],
+  deleteTasks: ["owner", "manager"],
+  // add, rename and remove status columns and milestones
+  manageBoard: ["owner", "manager"],
+  // add and remove contributors and viewers, and change roles between them
+  manageMembers: ["owner", "manager"],
+  // make members managers or remove managers
+  manageManagers: ["owner"],
+  renameProject: ["owner", "manager"],
+  transferOwnership: ["owner"],
+  deleteProject: ["owner"],
+};
+
+export interface RoleDoc extends BaseDoc {
+  scope: ObjectId;
+  user: ObjectId;
+  role: Role;
+}
+
+/**
+ * concept: Role [Scope, User]
+ * stores the role each user has within a scope (e.g. a project) and what that role permits
+ */
+export default class RoleConcept {
+  public readonly roles: DocCollection<RoleDoc>;
+
+  constructor(collectionName: string) {
+    this.roles = new DocCollection<RoleDoc>(collectionName);
+  }
+
+  // give a user a role within a scope, replacing any role they had
+  async assign(scope: ObjectId, user: ObjectId, role: Role) {
+    if (await this.roles.readOne({ scope, user })) {
+      await this.roles.partialUpdateOne({ scope, user }, { role });
+    } else {
+      await this.roles.createOne({ scope, user, role });
+    }
+    return { msg: `Role set to ${role}!` };
+  }
+
+  // get the role of a user within a scope, or null if they have none
+  async getRole(scope: ObjectId, user: ObjectId) {
+    return (await this.roles.readOne({ scope, user }))?.role ?? null;
+  }
+
+  async getRoles(scope: ObjectId) {
+    return await this.roles.readMany({ scope });
+  }
+
+  async countRoles(scope: ObjectId) {
+    return await this.roles.count({ scope });
+  }
+
+  async remove(scope: ObjectId, user: ObjectId) {
+    await this.roles.deleteOne({ scope, user });
+    return { msg: "Role removed!" };
+  }
+
+  // delete all roles of a user
+  // (use when deleting the user)
+  async deleteForUser(user: ObjectId) {
+    await this.roles.deleteMany({ user });
+    return { msg: "Deleted all roles of user!" };
+  }
+
+  // delete all roles within a scope
+  // (use when deleting the scope)
+  async deleteForScope(scope: ObjectId) {
+    await this.roles.deleteMany({ scope });
+    return { msg: "Deleted all roles of scope!" };
+  }
+
+  can(role: Role | null, permission: Permission) {
+    return role !== null && PERMISSIONS[permission].includes(role);
+  }
+
+  async assertAllowed(scope: ObjectId, user: ObjectId, permission: Permission) {
+    const role = await this.getRole(scope, user);
+    if (!this.can(role, permission)) {
+      throw new RoleNotAllowedError(user, scope, permission);
+    }
+    return role!;
+  }
+
+  assertValidRole(role: string) {
+    if (!ROLES.includes(role as Role)) {
+      throw new BadValuesError(`Unknown role ${role}! Expected one of ${ROLES.join(", ")}.`);
+    }
+    return role as Role;
+  }
+}
+
+export class RoleNotAllowedError extends NotAllowedError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly scope: ObjectId,
+    public readonly permission: Permission,
+  ) {
+    super("{0} does not have permission to {1} in {2}!", user, permission, scope);
+  }
+}
@@ -1,6 +1,9 @@
 import { SessionData } from "express-session";
-import { ObjectId } from "mongodb";
-import { NotAllowedError, UnauthenticatedError } from "./errors";
+import { MongoServerError, ObjectId } from "mongodb";
+
+import db from "../db";
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { NotAllowedError, NotFoundError, UnauthenticatedError } from "./errors";
 
 export type SessionDoc = SessionData;
 
@@ -10,21 +13,87 @@ export type SessionDoc = SessionData;
 declare module "express-session" {
   export interface SessionData {
     user?: string;
+    // set if the request was authenticated with this API token instead of a session cookie
+    token?: string;
+    // the record of this login, which is gone once the session has been revoked
+    record?: string;
   }
 }
 
+// a login of a user, which lasts until they log out, it is revoked or it expires
+export interface SessionRecordDoc extends BaseDoc {
+  user: ObjectId;
+  // ID of the session in the session store
+  sessionId?: string;
+  userAgent?: string;
+  lastSeen: Date;
+}
+
+// how long after the last update a session's last seen time is updated again
+const LAST_SEEN_INTERVAL = 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
 /**
  * concept: Sessioning [User]
  */
 export default class SessioningConcept {
-  start(session: SessionDoc, user: ObjectId) {
+  public readonly records: DocCollection<SessionRecordDoc>;
+
+  /**
+   * Make an instance of Sessioning whose sessions expire `expiryDays` after they were last seen,
+   * which should match how long the session store keeps sessions.
+   */
+  constructor(
+    collectionName: string,
+    public readonly expiryDays: number,
+  ) {
+    this.records = new DocCollection<SessionRecordDoc>(collectionName);
+
+    // Create index on user to make listing their sessions performant
+    void this.records.collection.createIndex({ user: 1 });
+    // Let MongoDB delete records of sessions that expired, e.g. because their cookie was abandoned
+    void this.createExpiryIndex(Math.round((expiryDays * DAY) / 1000));
+  }
+
+  async start(session: SessionDoc, user: ObjectId, sessionId?: string, userAgent?: string) {
     this.isLoggedOut(session);
+    const record = await this.records.createOne({ user, sessionId, userAgent, lastSeen: new Date() });
     session.user = user.toString();
+    session.record = record.toString();
+  }
+
+  // make a session for a single request that was authenticated with an API token
+  startForToken(user: ObjectId, token: ObjectId) {
+    return { user: user.toString(), token: token.toString() } as SessionDoc;
   }
 
-  end(session: SessionDoc) {
+  async end(session: SessionDoc) {
     this.isLoggedIn(session);
+    if (session.record !== undefined) {
+      await this.records.deleteOne({ _id: new ObjectId(session.record) });
+    }
     session.user = undefined;
+    session.record = undefined;
+  }
+
+  // check that a session has not been revoked, ending it if it has, and note that it was seen
+  // sessions from before logins were recorded get a record now
+  async touch(session: SessionDoc, sessionId?: string, userAgent?: string) {
+    if (session.user === undefined || session.token !== undefined) {
+      return;
+    }
+    if (session.record === undefined) {
+      const record = await this.records.createOne({ user: new ObjectId(session.user), sessionId, userAgent, lastSeen: new Date() });
+      session.record = record.toString();
+      return;
+    }
+    const record = await this.records.readOne({ _id: new ObjectId(session.record) });
+    if (!record) {
+      session.user = undefined;
+      session.record = undefined;
+    } else if (Date.now() - record.lastSeen.getTime() > LAST_SEEN_INTERVAL) {
+      await this.records.partialUpdateOne({ _id: record._id }, { lastSeen: new Date() });
+    }
   }
 
   getUser(session: SessionDoc) {
@@ -32,6 +101,48 @@ export default class SessioningConcept {
     return new ObjectId(session.user);
   }
 
+  // get the active sessions of the user of `session`, most recently seen first, marking which one is `session`
+  async getSessions(session: SessionDoc) {
+    const user = this.getUser(session);
+    // MongoDB only deletes expired records every minute or so, so leave out the ones it has not got to yet
+    const active = { $gt: new Date(Date.now() - this.expiryDays * DAY) };
+    const records = await this.records.readMany({ user, lastSeen: active }, { projection: { sessionId: 0 }, sort: { lastSeen: -1 } });
+    return records.map((record) => ({ ...record, current: record._id.toString() === session.record }));
+  }
+
+  // revoke one of the sessions of the user of `session`, which ends `session` if it is the one revoked
+  async revoke(session: SessionDoc, _id: ObjectId) {
+    const user = this.getUser(session);
+    const record = await this.records.readOne({ _id });
+    if (!record) {
+      throw new NotFoundError(`Session ${_id} does not exist!`);
+    }
+    if (record.user.toString() !== user.toString()) {
+      throw new SessionOwnerNotMatchError(user, _id);
+    }
+    await this.records.deleteOne({ _id });
+    if (_id.toString() === session.record) {
+      session.user = undefined;
+      session.record = undefined;
+    }
+    return { msg: "Session revoked!" };
+  }
+
+  // revoke all sessions of the user of `session` except `session` itself
+  async revokeOthers(session: SessionDoc) {
+    const user = this.getUser(session);
+    const keep = session.record !== undefined ? [new ObjectId(session.record)] : [];
+    const { deletedCount } = await this.records.deleteMany({ user, _id: { $nin: keep } });
+    return { msg: "Other sessions revoked!", revoked: deletedCount };
+  }
+
+  // delete the records of all sessions of a user, which revokes them
+  // (use when deleting the user)
+  async deleteForUser(user: ObjectId) {
+    const { deletedCount } = await this.records.deleteMany({ user });
+    return { msg: "Deleted all sessions of user!", deleted: deletedCount };
+  }
+
   isLoggedIn(session: SessionDoc) {
     if (session.user === undefined) {
       throw new UnauthenticatedError("Must be logged in!");
@@ -43,4 +154,35 @@ export default class SessioningConcept {
       throw new NotAllowedError("Must be logged out!");
     }
   }
+
+  // some actions, like managing the account and its tokens, need a session cookie
+  isNotToken(session: SessionDoc) {
+    if (session.token !== undefined) {
+      throw new NotAllowedError("This cannot be done with an API token!");
+    }
+  }
+
+  // expire records `expireAfterSeconds` after they were last seen
+  private async createExpiryIndex(expireAfterSeconds: number) {
+    try {
+      await this.records.collection.createIndex({ lastSeen: 1 }, { expireAfterSeconds });
+    } catch (e: unknown) {
+      if (!(e instanceof MongoServerError && e.codeName === "IndexOptionsConflict")) {
+        console.error("Could not create the index that expires session records:", e);
+        return;
+      }
+      // the index already exists with the expiry of an earlier setting, which creating it again does not change
+      const update = { collMod: this.records.collection.collectionName, index: { keyPattern: { lastSeen: 1 }, expireAfterSeconds } };
+      await db.command(update).catch((e: unknown) => console.error("Could not update the expiry of session records:", e));
+    }
+  }
+}
+
+export class SessionOwnerNotMatchError extends NotAllowedError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly _id: ObjectId,
+  ) {
+    super("{0} is not the owner of session {1}!", user, _id);
+  }
 }
@@ -0,0 +1,145 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+export interface StatusDoc extends BaseDoc {
+  project: ObjectId;
+  name: string;
+  position: number;
+  // items in the terminal status count as done
+  terminal: boolean;
+}
+
+// the status columns every new project starts with
+const DEFAULT_STATUSES = [
+  { name: "todo", terminal: false },
+  { name: "in progress", terminal: false },
+  { name: "in review", terminal: false },
+  { name: "done", terminal: true },
+];
+
+/**
+ * concept: Status [Project]
+ * stores the ordered status columns of a project, exactly one of which is terminal
+ */
+export default class StatusConcept {
+  public readonly statuses: DocCollection<StatusDoc>;
+
+  constructor(collectionName: string) {
+    this.statuses = new DocCollection<StatusDoc>(collectionName);
+  }
+
+  // create the default status columns for a project, unless it already has some
+  // (projects created before status columns existed get them on first use)
+  async createDefaults(project: ObjectId) {
+    if ((await this.statuses.count({ project })) > 0) {
+      return { msg: "Project already has statuses." };
+    }
+    await this.statuses.createMany(DEFAULT_STATUSES.map((status, position) => ({ project, position, ...status })));
+    return { msg: "Default statuses successfully created!" };
+  }
+
+  // replace the status columns of a project with `statuses`, in order
+  // exactly one of them must be terminal
+  async replaceAll(project: ObjectId, statuses: { name: string; terminal: boolean }[]) {
+    if (statuses.filter((status) => status.terminal).length !== 1) {
+      throw new BadValuesError("Exactly one status must be terminal!");
+    }
+    if (new Set(statuses.map((status) => status.name)).size !== statuses.length || statuses.some((status) => !status.name)) {
+      throw new BadValuesError("Status names must be unique and non-empty!");
+    }
+    await this.statuses.deleteMany({ project });
+    await this.statuses.createMany(statuses.map(({ name, terminal }, position) => ({ project, name, position, terminal })));
+    return { msg: "Statuses successfully replaced!", statuses: await this.getStatuses(project) };
+  }
+
+  // add a non-terminal status column, at the end unless `position` is given
+  async create(project: ObjectId, name: string, position?: number) {
+    await this.assertNameUnique(project, name);
+    const statuses = await this.getStatuses(project);
+    const _id = await this.statuses.createOne({ project, name, position: statuses.length, terminal: false });
+    if (position !== undefined) {
+      await this.move(_id, position);
+    }
+    return { msg: "Status successfully created!", status: await this.statuses.readOne({ _id }) };
+  }
+
+  // get the status columns of a project in order
+  async getStatuses(project: ObjectId) {
+    return await this.statuses.readMany({ project }, { sort: { position: 1 } });
+  }
+
+  async getStatus(_id: ObjectId) {
+    const status = await this.statuses.readOne({ _id });
+    if (!status) {
+      throw new NotFoundError(`Status ${_id} does not exist!`);
+    }
+    return status;
+  }
+
+  // get the status that items of a project move to when they are done
+  async getTerminal(project: ObjectId) {
+    return await this.statuses.readOne({ project, terminal: true });
+  }
+
+  // get the first non-terminal status of a project, where new and reopened items go
+  async getInitial(project: ObjectId) {
+    return await this.statuses.readOne({ project, terminal: false }, { sort: { position: 1 } });
+  }
+
+  async rename(_id: ObjectId, name: string) {
+    const status = await this.getStatus(_id);
+    await this.assertNameUnique(status.project, name);
+    await this.statuses.partialUpdateOne({ _id }, { name });
+    return { msg: "Status successfully renamed!" };
+  }
+
+  // move a status column to another position, shifting the others
+  async move(_id: ObjectId, position: number) {
+    if (!Number.isInteger(position)) {
+      throw new BadValuesError(`Position ${position} must be an integer!`);
+    }
+    const status = await this.getStatus(_id);
+    const others = (await this.getStatuses(status.project)).filter((other) => other._id.toString() !== _id.toString());
+    others.splice(Math.max(0, Math.min(position, others.length)), 0, status);
+    // renumber every column in one request; run in a transaction, concurrent moves then conflict instead of interleaving
+    await this.statuses.partialUpdateEach(others.map((other, i) => ({ filter: { _id: other._id }, update: { position: i } })));
+    return { msg: "Status successfully moved!" };
+  }
+
+  // delete a non-terminal status column; the last one is kept so that new and reopened items have somewhere to go
+  async delete(_id: ObjectId) {
+    const status = await this.getStatus(_id);
+    if (status.terminal) {
+      throw new NotAllowedError(`Cannot delete the terminal status ${status.name}!`);
+    }
+    if ((await this.statuses.count({ project: status.project, terminal: false })) <= 1) {
+      throw new NotAllowedError(`Cannot delete ${status.name}, the last status that is not terminal!`);
+    }
+    await this.statuses.deleteOne({ _id });
+    return { msg: "Status successfully deleted!" };
+  }
+
+  async deleteForProject(project: ObjectId) {
+    await this.statuses.deleteMany({ project });
+    return { msg: "Statuses for project successfully deleted." };
+  }
+
+  async assertStatusInProject(_id: ObjectId, project: ObjectId) {
+    const status = await this.getStatus(_id);
+    if (status.project.toString() !== project.toString()) {
+      throw new NotAllowedError(`Status ${status.name} does not belong to project ${project}!`);
+    }
+    return status;
+  }
+
+  private async assertNameUnique(project: ObjectId, name: string) {
+    if (!name) {
+      throw new BadValuesError("Status name must be non-empty!");
+    }
+    if (await this.statuses.readOne({ project, name })) {
+      throw new NotAllowedError(`Status with name ${name} already exists in this project!`);
+    }
+  }
+}
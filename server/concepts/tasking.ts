@@ -1,6 +1,7 @@
-import { ObjectId } from "mongodb";
+import { Document, Filter, FindOneAndUpdateOptions, ObjectId, UpdateFilter } from "mongodb";
 
 import DocCollection, { BaseDoc } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
 export interface TaskDoc extends BaseDoc {
   description: string;
@@ -8,6 +9,91 @@ export interface TaskDoc extends BaseDoc {
   // TODO: how to handle ? field
   //   assignee?: ObjectId;
   completion: boolean;
+  start?: Date;
+  due?: Date;
+  // ordered subtasks; when `autoComplete` is set, the task is completed once all of them are checked
+  checklist?: ChecklistItem[];
+  autoComplete?: boolean;
+  // status column of the task and its sort key within that column
+  status?: ObjectId;
+  position?: number;
+  // recurring series this task is an occurrence of
+  series?: ObjectId;
+}
+
+export interface ChecklistItem {
+  _id: ObjectId;
+  description: string;
+  completion: boolean;
+}
+
+// largest position MongoDB takes in array updates; subtasks placed past the end go at the end
+const MAX_ARRAY_POSITION = 2 ** 31 - 1;
+
+export interface TaskDates {
+  start?: Date;
+  due?: Date;
+}
+
+// restricts task queries by due date
+// `overdue` only matches incomplete tasks whose due date has already passed
+export interface DueFilter {
+  overdue?: boolean;
+  from?: Date;
+  to?: Date;
+}
+
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export const TASK_SORT_FIELDS = ["dateCreated", "dateUpdated", "description", "completion", "due", "project"] as const;
+export type TaskSortField = (typeof TASK_SORT_FIELDS)[number];
+
+export interface TaskQuery {
+  projects: ObjectId[];
+  // only tasks with these ids, e.g. the tasks assigned to someone
+  ids?: ObjectId[];
+  completion?: boolean;
+  // case-insensitive substring of the description
+  text?: string;
+  created?: DateRange;
+  updated?: DateRange;
+  sort?: TaskSortField;
+  order?: "asc" | "desc";
+  // `next` cursor returned by the previous page
+  cursor?: string;
+  limit?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface TaskProgress {
+  completed: number;
+  total: number;
+  // share of the work done in percent, where open tasks count partially by their checked subtasks
+  percent: number;
+}
+
+export const STATS_PERIODS = ["day", "week"] as const;
+export type StatsPeriod = (typeof STATS_PERIODS)[number];
+
+export interface StatusCount {
+  // null for tasks created before status columns existed
+  status: ObjectId | null;
+  completion: boolean;
+  count: number;
+}
+
+export interface PeriodCount {
+  // start of the day or week (weeks start on Monday), in UTC
+  period: Date;
+  created: number;
+  completed: number;
+  // share of the tasks created up to the end of the period that are completed by then, in percent
+  percent: number;
 }
 
 export default class TaskingConcept {
@@ -18,9 +104,11 @@ export default class TaskingConcept {
   }
 
   // TODO: double check assignee logic --> should be undefined if no assignee
-  async create(description: string, project: ObjectId) {
+  async create(description: string, project: ObjectId, dates?: TaskDates, status?: ObjectId, series?: ObjectId) {
     const completion = false;
-    const _id = await this.tasks.createOne({ description, project, completion });
+    this.assertValidDates(dates);
+    const placement = status ? { status, position: await this.nextPosition(status) } : {};
+    const _id = await this.tasks.createOne({ description, project, completion, ...this.definedDates(dates), ...placement, ...(series ? { series } : {}) });
     return { msg: "Task successfully created!", task: await this.tasks.readOne({ _id }) };
   }
 
@@ -39,6 +127,91 @@ export default class TaskingConcept {
     return { msg: "Task description successfully updated!" };
   }
 
+  // move a task to another project, at the end of `status` if given
+  // the task leaves its recurring series, which belongs to the old project
+  async moveToProject(_id: ObjectId, project: ObjectId, status?: ObjectId) {
+    const placement = status ? { status, position: await this.nextPosition(status, _id) } : {};
+    await this.tasks.partialUpdateOne({ _id }, { project, ...placement });
+    await this.tasks.unsetOne({ _id }, status ? ["series"] : ["series", "status", "position"]);
+    return { msg: "Task successfully moved to project!" };
+  }
+
+  // update the description of all occurrences of a series that are not completed yet
+  async updateOpenInSeries(series: ObjectId, description: string) {
+    await this.tasks.partialUpdateMany({ series, completion: false }, { description });
+    return { msg: "Open occurrences successfully updated!" };
+  }
+
+  // set start and/or due date of a task; dates that are not given are left unchanged
+  async updateDates(_id: ObjectId, dates: TaskDates) {
+    const task = await this.readTask(_id);
+    this.assertValidDates({ start: dates.start ?? task.start, due: dates.due ?? task.due });
+    await this.tasks.partialUpdateOne({ _id }, this.definedDates(dates));
+    return { msg: "Task dates successfully updated!" };
+  }
+
+  // remove start and due date of a task
+  async clearDates(_id: ObjectId) {
+    await this.tasks.unsetOne({ _id }, ["start", "due"]);
+    return { msg: "Task dates successfully cleared!" };
+  }
+
+  // add a subtask to the checklist of a task, at the end unless `position` is given
+  async addChecklistItem(_id: ObjectId, description: string, position?: number) {
+    if (!description) {
+      throw new BadValuesError("Subtask description must be non-empty!");
+    }
+    const item = { _id: new ObjectId(), description, completion: false };
+    const at = position === undefined ? {} : { $position: this.clampPosition(position, MAX_ARRAY_POSITION) };
+    const task = await this.tasks.updateOneAndRead({ _id }, { $push: { checklist: { $each: [item], ...at } } });
+    if (!task) {
+      throw new NotFoundError(`Task ${_id} does not exist!`);
+    }
+    return { msg: "Subtask successfully added!", item };
+  }
+
+  // move a subtask to another position of the checklist
+  async moveChecklistItem(_id: ObjectId, item: ObjectId, position: number) {
+    const at = this.clampPosition(position, MAX_ARRAY_POSITION);
+    // take the subtask out and put it back in at `at`, all in one update
+    const rest = { $filter: { input: "$checklist", cond: { $ne: ["$$this._id", item] } } };
+    const moved = { $filter: { input: "$checklist", cond: { $eq: ["$$this._id", item] } } };
+    const before = at === 0 ? [] : { $slice: ["$$rest", at] };
+    const after = { $slice: ["$$rest", at, { $max: [{ $size: "$$rest" }, 1] }] };
+    await this.updateChecklist(_id, item, [{ $set: { checklist: { $let: { vars: { rest }, in: { $concatArrays: [before, moved, after] } } } } }]);
+    return { msg: "Subtask successfully moved!" };
+  }
+
+  // check or uncheck a subtask
+  // returns: the task afterwards and whether every one of its subtasks is checked
+  async setChecklistItemStatus(_id: ObjectId, item: ObjectId, completion: boolean) {
+    const task = await this.updateChecklist(_id, item, { $set: { "checklist.$[i].completion": completion } }, { arrayFilters: [{ "i._id": item }] });
+    const allChecked = (task.checklist ?? []).every((subtask) => subtask.completion);
+    return { msg: completion ? "Subtask checked!" : "Subtask unchecked.", allChecked, task };
+  }
+
+  // remove a subtask from the checklist
+  async removeChecklistItem(_id: ObjectId, item: ObjectId) {
+    await this.updateChecklist(_id, item, { $pull: { checklist: { _id: item } } });
+    return { msg: "Subtask successfully removed!" };
+  }
+
+  // set whether the task should be completed automatically once all its subtasks are checked
+  async setAutoComplete(_id: ObjectId, autoComplete: boolean) {
+    await this.tasks.partialUpdateOne({ _id }, { autoComplete });
+    return { msg: autoComplete ? "Task will be completed with its checklist." : "Task will not be completed with its checklist." };
+  }
+
+  // progress of a single task derived from its checklist
+  // a completed task counts as fully done regardless of its subtasks
+  getChecklistProgress(task: TaskDoc): TaskProgress {
+    const checklist = task.checklist ?? [];
+    const completed = checklist.filter((item) => item.completion).length;
+    const total = checklist.length;
+    const percent = task.completion ? 100 : total > 0 ? Math.round((100 * completed) / total) : 0;
+    return { completed, total, percent };
+  }
+
   //   async updateAssignee(_id: ObjectId, assignee: ObjectId) {
   //     await this.tasks.partialUpdateOne({ _id }, { assignee });
   //     return { msg: "Task assignee successfully updated!" };
@@ -55,19 +228,279 @@ export default class TaskingConcept {
   //     return { msg: "TODO: partial update to null or undefined?" };
   //   }
 
-  async setCompletionStatus(_id: ObjectId, completion: boolean) {
-    await this.tasks.partialUpdateOne({ _id }, { completion });
+  // when `status` is given, the task is also moved to the end of that status column
+  async setCompletionStatus(_id: ObjectId, completion: boolean, status?: ObjectId) {
+    const placement = status ? { status, position: await this.nextPosition(status, _id) } : {};
+    await this.tasks.partialUpdateOne({ _id }, { completion, ...placement });
     if (completion) {
       return { msg: "Task marked as completed!" };
     }
     return { msg: "Task marked incomplete." };
   }
 
-  async getAllTasksForProject(project: ObjectId) {
-    return await this.tasks.readMany({ project });
+  // move a task to `index` within the status column `status`
+  // status, position and completion are updated together in a single write, along with any renumbering of the column
+  async moveTask(_id: ObjectId, status: ObjectId, index: number, completion: boolean) {
+    await this.readTask(_id);
+    const others = (await this.getTasksInStatus(status)).filter((task) => task._id.toString() !== _id.toString());
+    const at = this.clampPosition(index, others.length);
+    const before = others[at - 1]?.position;
+    const after = others[at]?.position;
+
+    let position: number;
+    if (before === undefined) {
+      position = after === undefined ? 0 : after - 1;
+    } else if (after === undefined) {
+      position = before + 1;
+    } else {
+      position = (before + after) / 2;
+      if (position <= before || position >= after) {
+        // ran out of precision between the neighbours, so spread the column out again
+        const renumbered = others.map((task, i) => ({ filter: { _id: task._id }, update: { position: i < at ? i : i + 1 } }));
+        await this.tasks.partialUpdateEach([...renumbered, { filter: { _id }, update: { status, position: at, completion } }]);
+        return { msg: "Task successfully moved!" };
+      }
+    }
+    await this.tasks.partialUpdateOne({ _id }, { status, position, completion });
+    return { msg: "Task successfully moved!" };
+  }
+
+  // get the tasks in a status column in order
+  async getTasksInStatus(status: ObjectId) {
+    return await this.tasks.readMany({ status }, { sort: { position: 1 } });
+  }
+
+  async countTasksInStatus(status: ObjectId) {
+    return await this.tasks.count({ status });
+  }
+
+  // get all tasks for a project, optionally only those whose due date matches `due`
+  async getAllTasksForProject(project: ObjectId, due?: DueFilter) {
+    return await this.tasks.readMany({ project, ...this.dueFilter(due) });
+  }
+
+  async countTasksForProject(project: ObjectId, due?: DueFilter) {
+    return await this.tasks.count({ project, ...this.dueFilter(due) });
+  }
+
+  // get tasks by id, optionally only those whose due date matches `due`
+  async getTasks(ids: ObjectId[], due?: DueFilter) {
+    return await this.tasks.readMany({ _id: { $in: ids }, ...this.dueFilter(due) });
+  }
+
+  // search tasks of the given projects, one page at a time
+  // returns the page of tasks and the cursor for the next page, if there is one
+  async search(query: TaskQuery) {
+    const sort = query.sort ?? "dateCreated";
+    if (!TASK_SORT_FIELDS.includes(sort)) {
+      throw new BadValuesError(`Cannot sort tasks by ${sort}! Expected one of ${TASK_SORT_FIELDS.join(", ")}.`);
+    }
+    const direction = query.order === "desc" ? -1 : 1;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new BadValuesError(`Limit must be between 1 and ${MAX_PAGE_SIZE}!`);
+    }
+
+    const filters: Filter<TaskDoc>[] = [{ project: { $in: query.projects } }];
+    if (query.ids) {
+      filters.push({ _id: { $in: query.ids } });
+    }
+    if (query.completion !== undefined) {
+      filters.push({ completion: query.completion });
+    }
+    if (query.text) {
+      filters.push({ description: { $regex: query.text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), $options: "i" } });
+    }
+    filters.push(this.rangeFilter("dateCreated", query.created), this.rangeFilter("dateUpdated", query.updated));
+    if (query.cursor) {
+      filters.push(this.afterCursor(sort, direction, query.cursor));
+    }
+
+    const page = await this.tasks.readMany({ $and: filters }, { sort: { [sort]: direction, _id: direction }, limit: limit + 1 });
+    const tasks = page.slice(0, limit);
+    const next = page.length > limit ? this.encodeCursor(tasks[tasks.length - 1], sort) : undefined;
+    return { tasks, next };
+  }
+
+  // assert that all the given tasks are completed
+  async assertTasksCompleted(ids: ObjectId[]) {
+    const incomplete = await this.tasks.readMany({ _id: { $in: ids }, completion: false });
+    if (incomplete.length > 0) {
+      const descriptions = incomplete.map((task) => `"${task.description}"`).join(", ");
+      throw new NotAllowedError(`Blocked by incomplete tasks: ${descriptions}!`);
+    }
+  }
+
+  // check whether all the given tasks are completed
+  async areTasksCompleted(ids: ObjectId[]) {
+    return (await this.tasks.count({ _id: { $in: ids }, completion: false })) === 0;
+  }
+
+  // count completed and total tasks for a project
+  // (optionally restricted to the given tasks, e.g. the ones assigned to a member)
+  // checked subtasks of open tasks count towards `percent`
+  async getProgress(project: ObjectId, tasks?: ObjectId[]): Promise<TaskProgress> {
+    const filter: Filter<TaskDoc> = tasks ? { project, _id: { $in: tasks } } : { project };
+    const docs = await this.tasks.readMany(filter, { projection: { completion: 1, checklist: 1 } });
+    const completed = docs.filter((task) => task.completion).length;
+    const done = docs.reduce((sum, task) => sum + this.getChecklistProgress(task).percent, 0);
+    return { completed, total: docs.length, percent: docs.length > 0 ? Math.round(done / docs.length) : 0 };
+  }
+
+  async getTaskIdsForProject(project: ObjectId) {
+    return (await this.tasks.readMany({ project }, { projection: { _id: 1 } })).map((task) => task._id);
+  }
+
+  // count the tasks of a project in each status column, separately for open and completed tasks
+  async countByStatus(project: ObjectId) {
+    return await this.tasks.aggregate<StatusCount>([
+      { $match: { project } },
+      { $group: { _id: { status: { $ifNull: ["$status", null] }, completion: "$completion" }, count: { $sum: 1 } } },
+      { $project: { _id: 0, status: "$_id.status", completion: "$_id.completion", count: 1 } },
+    ]);
+  }
+
+  // count the tasks of a project created and completed in each day or week, oldest first
+  // a task counts as completed when it was last updated, since completion times are not stored
+  async getCompletionHistory(project: ObjectId, period: StatsPeriod) {
+    const upToNow = { documents: ["unbounded", "current"] };
+    return await this.tasks.aggregate<PeriodCount>([
+      { $match: { project } },
+      {
+        $project: {
+          events: { $concatArrays: [[{ at: "$dateCreated", created: 1, completed: 0 }], { $cond: ["$completion", [{ at: "$dateUpdated", created: 0, completed: 1 }], []] }] },
+        },
+      },
+      { $unwind: "$events" },
+      { $group: { _id: { $dateTrunc: { date: "$events.at", unit: period, startOfWeek: "monday" } }, created: { $sum: "$events.created" }, completed: { $sum: "$events.completed" } } },
+      { $setWindowFields: { sortBy: { _id: 1 }, output: { totalCreated: { $sum: "$created", window: upToNow }, totalCompleted: { $sum: "$completed", window: upToNow } } } },
+      { $sort: { _id: 1 } },
+      { $project: { _id: 0, period: "$_id", created: 1, completed: 1, percent: { $round: [{ $multiply: [100, { $divide: ["$totalCompleted", "$totalCreated"] }] }, 0] } } },
+    ]);
+  }
+
+  // average time in milliseconds from creating a task of a project to completing it
+  // (null if no task is completed yet), with the same caveat as `getCompletionHistory`
+  async getAverageCompletionTime(project: ObjectId) {
+    const [result] = await this.tasks.aggregate<{ completed: number; averageMs: number }>([
+      { $match: { project, completion: true } },
+      { $group: { _id: null, completed: { $sum: 1 }, averageMs: { $avg: { $subtract: ["$dateUpdated", "$dateCreated"] } } } },
+      { $project: { _id: 0, completed: 1, averageMs: { $round: ["$averageMs", 0] } } },
+    ]);
+    return result ?? { completed: 0, averageMs: null };
   }
 
   //   async getAllTasksForUser(assignee: ObjectId) {
   //     return await this.tasks.readMany({ assignee });
   //   }
+
+  private async readTask(_id: ObjectId) {
+    const task = await this.tasks.readOne({ _id });
+    if (!task) {
+      throw new NotFoundError(`Task ${_id} does not exist!`);
+    }
+    return task;
+  }
+
+  // position after the last task in a status column (ignoring `exclude`)
+  private async nextPosition(status: ObjectId, exclude?: ObjectId) {
+    const last = await this.tasks.readOne(exclude ? { status, _id: { $ne: exclude } } : { status }, { sort: { position: -1 } });
+    return (last?.position ?? -1) + 1;
+  }
+
+  // atomically update a task that has the subtask `item`
+  // returns: the task after the update
+  private async updateChecklist(_id: ObjectId, item: ObjectId, update: UpdateFilter<TaskDoc> | Document[], options?: FindOneAndUpdateOptions) {
+    const task = await this.tasks.updateOneAndRead({ _id, "checklist._id": item }, update, options);
+    if (!task) {
+      await this.readTask(_id);
+      throw new NotFoundError(`Subtask ${item} does not exist!`);
+    }
+    return task;
+  }
+
+  private clampPosition(position: number, length: number) {
+    if (!Number.isInteger(position)) {
+      throw new BadValuesError(`Position ${position} must be an integer!`);
+    }
+    return Math.max(0, Math.min(position, length));
+  }
+
+  private rangeFilter(field: "dateCreated" | "dateUpdated", range?: DateRange): Filter<TaskDoc> {
+    const condition: { $gte?: Date; $lte?: Date } = {};
+    if (range?.from) {
+      condition.$gte = range.from;
+    }
+    if (range?.to) {
+      condition.$lte = range.to;
+    }
+    return Object.keys(condition).length > 0 ? { [field]: condition } : {};
+  }
+
+  // cursors remember the sort value and id of the last task of a page
+  private encodeCursor(task: TaskDoc, sort: TaskSortField) {
+    const value = task[sort];
+    const encoded = value instanceof Date ? { date: value.toISOString() } : value instanceof ObjectId ? { id: value.toString() } : { value: value ?? null };
+    return Buffer.from(JSON.stringify({ ...encoded, _id: task._id.toString() })).toString("base64url");
+  }
+
+  // filter for the tasks that come after the cursor in the sort order (ties are broken by id)
+  // tasks without a value for the sort field (e.g. no due date) come first in ascending order
+  private afterCursor(sort: TaskSortField, direction: 1 | -1, cursor: string): Filter<TaskDoc> {
+    let value: unknown, _id: ObjectId;
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+      value = decoded.date !== undefined ? new Date(decoded.date) : decoded.id !== undefined ? new ObjectId(decoded.id as string) : decoded.value;
+      _id = new ObjectId(decoded._id as string);
+    } catch {
+      throw new BadValuesError("Invalid cursor!");
+    }
+
+    const after = direction === 1 ? "$gt" : "$lt";
+    if (value === null) {
+      const tie = { [sort]: null, _id: { [after]: _id } };
+      return direction === 1 ? { $or: [tie, { [sort]: { $ne: null } }] } : tie;
+    }
+    const alternatives: Filter<TaskDoc>[] = [{ [sort]: { [after]: value } }, { [sort]: value, _id: { [after]: _id } }];
+    if (direction === -1) {
+      alternatives.push({ [sort]: null });
+    }
+    return { $or: alternatives };
+  }
+
+  private dueFilter(due?: DueFilter): Filter<TaskDoc> {
+    if (!due || (!due.overdue && !due.from && !due.to)) {
+      return {};
+    }
+    const range: { $exists: true; $gte?: Date; $lte?: Date; $lt?: Date } = { $exists: true };
+    if (due.from) {
+      range.$gte = due.from;
+    }
+    if (due.to) {
+      range.$lte = due.to;
+    }
+    if (due.overdue) {
+      range.$lt = new Date();
+      return { due: range, completion: false };
+    }
+    return { due: range };
+  }
+
+  // drop undefined dates so that they are not stored as null
+  private definedDates(dates?: TaskDates) {
+    const defined: TaskDates = {};
+    if (dates?.start) {
+      defined.start = dates.start;
+    }
+    if (dates?.due) {
+      defined.due = dates.due;
+    }
+    return defined;
+  }
+
+  private assertValidDates(dates?: TaskDates) {
+    if (dates?.start && dates?.due && dates.start > dates.due) {
+      throw new BadValuesError("Task start date must not be after its due date!");
+    }
+  }
 }
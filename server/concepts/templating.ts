@@ -0,0 +1,121 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+export interface TemplateTask {
+  description: string;
+  // descriptions of the subtasks, in order
+  checklist: string[];
+  autoComplete: boolean;
+  // dates are stored as milliseconds after the start of the template
+  startOffset?: number;
+  dueOffset?: number;
+}
+
+export interface TemplateDoc extends BaseDoc {
+  owner: ObjectId;
+  name: string;
+  tasks: TemplateTask[];
+}
+
+// the parts of an item that a template keeps
+export interface TemplateSource {
+  description: string;
+  start?: Date;
+  due?: Date;
+  checklist?: { description: string }[];
+  autoComplete?: boolean;
+}
+
+/**
+ * concept: Templating [Owner]
+ * stores reusable lists of items whose dates are relative to when the template is used
+ */
+export default class TemplatingConcept {
+  public readonly templates: DocCollection<TemplateDoc>;
+
+  constructor(collectionName: string) {
+    this.templates = new DocCollection<TemplateDoc>(collectionName);
+  }
+
+  async create(owner: ObjectId, name: string, tasks: TemplateTask[]) {
+    if (!name) {
+      throw new BadValuesError("Template name must be non-empty!");
+    }
+    const _id = await this.templates.createOne({ owner, name, tasks });
+    return { msg: "Template successfully created!", template: await this.templates.readOne({ _id }) };
+  }
+
+  async getTemplate(_id: ObjectId) {
+    const template = await this.templates.readOne({ _id });
+    if (!template) {
+      throw new NotFoundError(`Template ${_id} does not exist!`);
+    }
+    return template;
+  }
+
+  async getTemplatesForOwner(owner: ObjectId) {
+    return await this.templates.readMany({ owner }, { sort: { name: 1 } });
+  }
+
+  async delete(_id: ObjectId) {
+    await this.templates.deleteOne({ _id });
+    return { msg: "Template successfully deleted!" };
+  }
+
+  // delete all templates of an owner
+  // (use when deleting the owner)
+  async deleteForOwner(owner: ObjectId) {
+    const { deletedCount } = await this.templates.deleteMany({ owner });
+    return { msg: "Templates successfully deleted!", deleted: deletedCount };
+  }
+
+  async assertOwnerIsUser(_id: ObjectId, user: ObjectId) {
+    const template = await this.getTemplate(_id);
+    if (template.owner.toString() !== user.toString()) {
+      throw new TemplateOwnerNotMatchError(user, _id);
+    }
+  }
+
+  // turn items into template tasks, with dates relative to the earliest date among them
+  // returns: the template tasks and the date they are relative to
+  toTemplateTasks(items: TemplateSource[]) {
+    const anchor = this.getAnchor(items);
+    const tasks = items.map((item) => {
+      const task: TemplateTask = {
+        description: item.description,
+        checklist: (item.checklist ?? []).map((subtask) => subtask.description),
+        autoComplete: item.autoComplete ?? false,
+      };
+      if (item.start && anchor) {
+        task.startOffset = item.start.getTime() - anchor.getTime();
+      }
+      if (item.due && anchor) {
+        task.dueOffset = item.due.getTime() - anchor.getTime();
+      }
+      return task;
+    });
+    return { tasks, anchor };
+  }
+
+  // get the dates of a template task when the template starts at `start`
+  getDates(task: TemplateTask, start: Date) {
+    const at = (offset?: number) => (offset !== undefined ? new Date(start.getTime() + offset) : undefined);
+    return { start: at(task.startOffset), due: at(task.dueOffset) };
+  }
+
+  private getAnchor(items: TemplateSource[]) {
+    const times = items.flatMap((item) => [item.start, item.due]).flatMap((date) => (date ? [date.getTime()] : []));
+    return times.length > 0 ? new Date(Math.min(...times)) : undefined;
+  }
+}
+
+export class TemplateOwnerNotMatchError extends NotAllowedError {
+  constructor(
+    public readonly owner: ObjectId,
+    public readonly _id: ObjectId,
+  ) {
+    super("{0} is not the owner of template {1}!", owner, _id);
+  }
+}
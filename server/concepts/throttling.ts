@@ -0,0 +1,76 @@
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { TooManyRequestsError } from "./errors";
+
+export interface FailureDoc extends BaseDoc {
+  key: string;
+  // failures since the last success, not counting ones that have expired
+  failures: number;
+  lastFailure: Date;
+  lockedUntil?: Date;
+}
+
+const MINUTE = 60 * 1000;
+// longest a key is locked for, however often it keeps failing
+const MAX_LOCKOUT = 24 * 60 * MINUTE;
+
+/**
+ * concept: Throttling [Key]
+ * counts failed attempts per key (e.g. a username or an IP address) and locks keys out that fail too often
+ */
+export default class ThrottlingConcept {
+  public readonly failures: DocCollection<FailureDoc>;
+
+  /**
+   * Make an instance of Throttling that locks a key for `lockoutMinutes` once it has failed `maxFailures` times,
+   * doubling the lockout with every further failure.
+   */
+  constructor(
+    collectionName: string,
+    private readonly maxFailures: number,
+    private readonly lockoutMinutes: number,
+  ) {
+    this.failures = new DocCollection<FailureDoc>(collectionName);
+
+    // Create index on key to make lookups for it performant
+    void this.failures.collection.createIndex({ key: 1 }, { unique: true });
+  }
+
+  async assertNotLocked(key: string) {
+    const record = await this.failures.readOne({ key });
+    if (record?.lockedUntil && record.lockedUntil > new Date()) {
+      throw new LockedOutError(record.lockedUntil);
+    }
+  }
+
+  // count a failed attempt, locking the key if it has failed too often
+  // the count is updated atomically, so that failures made at the same time are all counted
+  // returns: when the key is locked until, if it is locked now
+  async recordFailure(key: string) {
+    const now = new Date();
+    // failures are forgotten once the key has not failed, and has not been locked, for `lockoutMinutes`
+    const lastActive = { $max: [{ $ifNull: ["$lastFailure", new Date(0)] }, { $ifNull: ["$lockedUntil", new Date(0)] }] };
+    const expired = { $gt: [{ $subtract: [now, lastActive] }, this.lockoutMinutes * MINUTE] };
+    const record = await this.failures.updateOneAndRead({ key }, [{ $set: { failures: { $cond: [expired, 1, { $add: ["$failures", 1] }] }, lastFailure: now } }], { upsert: true });
+    const failures = record?.failures ?? 1;
+    if (failures < this.maxFailures) {
+      return { msg: "Failure recorded.", lockedUntil: undefined };
+    }
+    const lockout = Math.min(this.lockoutMinutes * MINUTE * 2 ** (failures - this.maxFailures), MAX_LOCKOUT);
+    const lockedUntil = new Date(now.getTime() + lockout);
+    // failures recorded at the same time may finish in any order, so keep the longest lockout
+    await this.failures.updateOneAndRead({ key }, { $max: { lockedUntil } });
+    return { msg: "Failure recorded.", lockedUntil };
+  }
+
+  // forget the failures of a key, e.g. after a successful attempt
+  async reset(key: string) {
+    await this.failures.deleteOne({ key });
+    return { msg: "Failures reset." };
+  }
+}
+
+export class LockedOutError extends TooManyRequestsError {
+  constructor(public readonly until: Date) {
+    super("Too many failed attempts! Try again after {0}.", until.toISOString());
+  }
+}
@@ -0,0 +1,126 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { hashSecret, makeSecret } from "../framework/secrets";
+import { BadValuesError, NotAllowedError, NotFoundError, UnauthenticatedError } from "./errors";
+
+// "read" tokens can only make requests that change nothing, "write" tokens can make any other request
+export const TOKEN_SCOPES = ["read", "write"] as const;
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+export interface TokenDoc extends BaseDoc {
+  user: ObjectId;
+  name: string;
+  // `hashSecret` of the token; the token itself is only shown when it is created
+  hash: string;
+  // start of the token, so that users can tell their tokens apart
+  prefix: string;
+  scopes: TokenScope[];
+  expires: Date;
+  lastUsed?: Date;
+}
+
+const TOKEN_PREFIX = "pit_";
+const DAY = 24 * 60 * 60 * 1000;
+const MAX_EXPIRY_DAYS = 365;
+
+/**
+ * concept: Token [User]
+ * secret bearer tokens that act on behalf of a user with limited scopes, until they expire or are revoked
+ */
+export default class TokenConcept {
+  public readonly tokens: DocCollection<TokenDoc>;
+
+  constructor(collectionName: string) {
+    this.tokens = new DocCollection<TokenDoc>(collectionName);
+
+    // Create index on hash to make looking up tokens performant
+    void this.tokens.collection.createIndex({ hash: 1 }, { unique: true });
+  }
+
+  // create a token for a user that expires after `expiryDays`
+  // returns: the token, which cannot be retrieved again, and its record
+  async create(user: ObjectId, name: string, scopes: string[], expiryDays: number) {
+    if (!name) {
+      throw new BadValuesError("Token name must be non-empty!");
+    }
+    if (!Number.isInteger(expiryDays) || expiryDays < 1 || expiryDays > MAX_EXPIRY_DAYS) {
+      throw new BadValuesError(`Tokens must expire after between 1 and ${MAX_EXPIRY_DAYS} days!`);
+    }
+    const token = TOKEN_PREFIX + makeSecret();
+    const _id = await this.tokens.createOne({
+      user,
+      name,
+      hash: hashSecret(token),
+      prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      scopes: this.assertValidScopes(scopes),
+      expires: new Date(Date.now() + expiryDays * DAY),
+    });
+    return { msg: "Token created! Copy it now, it will not be shown again.", token, record: await this.getToken(_id) };
+  }
+
+  async getToken(_id: ObjectId) {
+    const token = await this.tokens.readOne({ _id }, { projection: { hash: 0 } });
+    if (!token) {
+      throw new NotFoundError(`Token ${_id} does not exist!`);
+    }
+    return token;
+  }
+
+  // get the tokens of a user, newest first, including expired ones
+  async getTokensForUser(user: ObjectId) {
+    return await this.tokens.readMany({ user }, { projection: { hash: 0 }, sort: { _id: -1 } });
+  }
+
+  // find the token a request was made with and note that it was used
+  // returns: the token's record
+  async authenticate(token: string) {
+    const record = await this.tokens.readOne({ hash: hashSecret(token) });
+    if (!record || record.expires <= new Date()) {
+      throw new UnauthenticatedError("Invalid or expired API token!");
+    }
+    await this.tokens.partialUpdateOne({ _id: record._id }, { lastUsed: new Date() });
+    return record;
+  }
+
+  assertHasScope(token: TokenDoc, scope: TokenScope) {
+    if (!token.scopes.includes(scope)) {
+      throw new NotAllowedError(`API token ${token.name} does not have the ${scope} scope!`);
+    }
+  }
+
+  async revoke(_id: ObjectId) {
+    await this.tokens.deleteOne({ _id });
+    return { msg: "Token revoked!" };
+  }
+
+  // delete all tokens of a user
+  // (use when deleting the user)
+  async deleteForUser(user: ObjectId) {
+    const { deletedCount } = await this.tokens.deleteMany({ user });
+    return { msg: "Deleted all tokens of user!", deleted: deletedCount };
+  }
+
+  async assertOwnerIsUser(_id: ObjectId, user: ObjectId) {
+    const token = await this.getToken(_id);
+    if (token.user.toString() !== user.toString()) {
+      throw new TokenOwnerNotMatchError(user, _id);
+    }
+  }
+
+  assertValidScopes(scopes: string[]) {
+    if (scopes.length === 0 || scopes.some((scope) => !TOKEN_SCOPES.includes(scope as TokenScope))) {
+      throw new BadValuesError(`Token scopes must be some of ${TOKEN_SCOPES.join(", ")}!`);
+    }
+    return [...new Set(scopes)] as TokenScope[];
+  }
+}
+
+export class TokenOwnerNotMatchError extends NotAllowedError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly _id: ObjectId,
+  ) {
+    super("{0} is not the owner of token {1}!", user, _id);
+  }
+}
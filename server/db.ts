@@ -1,4 +1,5 @@
-import { MongoClient, ServerApiVersion } from "mongodb";
+import { AsyncLocalStorage } from "async_hooks";
+import { ClientSession, MongoClient, ServerApiVersion } from "mongodb";
 
 const mongoUri = process.env.MONGO_SRV;
 if (!mongoUri) {
@@ -35,3 +36,33 @@ export async function connectDb() {
 
 const db = client.db(DB_NAME);
 export default db;
+
+// session of the transaction that the current operation runs in, if any
+const transactionSession = new AsyncLocalStorage<ClientSession>();
+
+/**
+ * Runs `operation` inside a transaction: either all of the writes it makes through
+ * `DocCollection` apply, or none of them do.
+ * Calls nested inside `operation` join its transaction.
+ *
+ * Note that operations inside a transaction must not run in parallel (e.g. with `Promise.all`),
+ * and that `operation` may be retried if the transaction fails to commit for a transient reason.
+ */
+export async function withTransaction<T>(operation: () => Promise<T>): Promise<T> {
+  if (transactionSession.getStore()) {
+    return await operation();
+  }
+  const session = client.startSession();
+  try {
+    return await session.withTransaction(() => transactionSession.run(session, operation));
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * @returns the session of the transaction that the current operation runs in, or `undefined` outside of transactions
+ */
+export function getTransactionSession() {
+  return transactionSession.getStore();
+}
@@ -1,5 +1,8 @@
 import {
+  AggregateOptions,
+  AnyBulkWriteOperation,
   BulkWriteOptions,
+  ClientSession,
   Collection,
   CountDocumentsOptions,
   DeleteOptions,
@@ -8,14 +11,17 @@ import {
   Filter,
   FindOneAndUpdateOptions,
   FindOptions,
+  InsertOneOptions,
   ObjectId,
   OptionalUnlessRequiredId,
   ReplaceOptions,
+  UpdateFilter,
+  UpdateOptions,
   UpdateResult,
   WithoutId,
 } from "mongodb";
 
-import db from "../db";
+import db, { getTransactionSession } from "../db";
 
 export interface BaseDoc {
   _id: ObjectId;
@@ -27,6 +33,7 @@ export type WithoutBase<T extends BaseDoc> = Omit<T, keyof BaseDoc>;
 
 /**
  * MongoDB collection with operations that maintain created and updated timestamps.
+ * Operations run inside `withTransaction` from `db.ts` automatically take part in its transaction.
  *
  * Note that you may wish to add more methods, e.g. using other MongoDB operations!
  */
@@ -52,6 +59,13 @@ export default class DocCollection<Schema extends BaseDoc> {
     return safe;
   }
 
+  /**
+   * Add the session of the current transaction, if there is one, to `options`.
+   */
+  private inTransaction<Options extends { session?: ClientSession }>(options?: Options): Options {
+    return { ...options, session: getTransactionSession() } as Options;
+  }
+
   /**
    * Add `item` to the collection.
    * @returns the object ID of the inserted document
@@ -60,7 +74,7 @@ export default class DocCollection<Schema extends BaseDoc> {
     const safe = this.withoutInternal(item);
     safe.dateCreated = new Date();
     safe.dateUpdated = new Date();
-    return (await this.collection.insertOne(safe as OptionalUnlessRequiredId<Schema>)).insertedId;
+    return (await this.collection.insertOne(safe as OptionalUnlessRequiredId<Schema>, this.inTransaction<InsertOneOptions>())).insertedId;
   }
 
   /**
@@ -74,7 +88,7 @@ export default class DocCollection<Schema extends BaseDoc> {
       safe.dateUpdated = new Date();
       return safe;
     });
-    return (await this.collection.insertMany(safe as OptionalUnlessRequiredId<Schema>[], options)).insertedIds;
+    return (await this.collection.insertMany(safe as OptionalUnlessRequiredId<Schema>[], this.inTransaction(options))).insertedIds;
   }
 
   /**
@@ -82,7 +96,7 @@ export default class DocCollection<Schema extends BaseDoc> {
    * @returns the document, or `null` if no document matches
    */
   async readOne(filter: Filter<Schema>, options?: FindOptions): Promise<Schema | null> {
-    return await this.collection.findOne<Schema>(filter, options);
+    return await this.collection.findOne<Schema>(filter, this.inTransaction(options));
   }
 
   /**
@@ -90,7 +104,7 @@ export default class DocCollection<Schema extends BaseDoc> {
    * @returns all matching documents
    */
   async readMany(filter: Filter<Schema>, options?: FindOptions): Promise<Schema[]> {
-    return await this.collection.find<Schema>(filter, options).toArray();
+    return await this.collection.find<Schema>(filter, this.inTransaction(options)).toArray();
   }
 
   /**
@@ -100,7 +114,7 @@ export default class DocCollection<Schema extends BaseDoc> {
   async replaceOne(filter: Filter<Schema>, item: Partial<Schema>, options?: ReplaceOptions): Promise<UpdateResult<Schema> | Document> {
     const safe = this.withoutInternal(item);
     safe.dateUpdated = new Date();
-    return await this.collection.replaceOne(filter, safe as WithoutId<Schema>, options);
+    return await this.collection.replaceOne(filter, safe as WithoutId<Schema>, this.inTransaction(options));
   }
 
   /**
@@ -110,7 +124,53 @@ export default class DocCollection<Schema extends BaseDoc> {
   async partialUpdateOne(filter: Filter<Schema>, update: Partial<Schema>, options?: FindOneAndUpdateOptions): Promise<UpdateResult<Schema>> {
     const safe = this.withoutInternal(update);
     safe.dateUpdated = new Date();
-    return await this.collection.updateOne(filter, { $set: safe as Partial<Schema> }, options);
+    return await this.collection.updateOne(filter, { $set: safe as Partial<Schema> }, this.inTransaction(options));
+  }
+
+  /**
+   * Update all documents that match `filter` with fields in `update`; only fields in `update` are updated.
+   * @returns an object describing what was updated
+   */
+  async partialUpdateMany(filter: Filter<Schema>, update: Partial<Schema>, options?: UpdateOptions): Promise<UpdateResult<Schema>> {
+    const safe = this.withoutInternal(update);
+    safe.dateUpdated = new Date();
+    return await this.collection.updateMany(filter, { $set: safe as Partial<Schema> }, this.inTransaction(options));
+  }
+
+  /**
+   * Update several documents, each with its own `filter` and `update` as in `partialUpdateOne`, in a single request.
+   * @returns an object describing what was updated
+   */
+  async partialUpdateEach(updates: { filter: Filter<Schema>; update: Partial<Schema> }[], options?: BulkWriteOptions) {
+    const dateUpdated = new Date();
+    const operations = updates.map(({ filter, update }) => {
+      const safe = this.withoutInternal(update);
+      safe.dateUpdated = dateUpdated;
+      return { updateOne: { filter, update: { $set: safe as Partial<Schema> } } };
+    });
+    return await this.collection.bulkWrite(operations as AnyBulkWriteOperation<Schema>[], this.inTransaction(options));
+  }
+
+  /**
+   * Atomically apply `update`, which is either an update document (e.g. with `$inc`) or an aggregation pipeline,
+   * to the document that matches `filter`. Set `upsert` in `options` to create the document if none matches.
+   * @returns the document after the update (or before it, if `returnDocument` in `options` says so), or `null` if there is none
+   */
+  async updateOneAndRead(filter: Filter<Schema>, update: UpdateFilter<Schema> | Document[], options?: FindOneAndUpdateOptions): Promise<Schema | null> {
+    const now = new Date();
+    const timestamped = Array.isArray(update)
+      ? [...update, { $set: { dateUpdated: now, dateCreated: { $ifNull: ["$dateCreated", now] } } }]
+      : { ...update, $set: { ...update.$set, dateUpdated: now }, $setOnInsert: { ...update.$setOnInsert, dateCreated: now } };
+    return (await this.collection.findOneAndUpdate(filter, timestamped as UpdateFilter<Schema>, { returnDocument: "after", ...this.inTransaction(options) })) as Schema | null;
+  }
+
+  /**
+   * Remove `fields` from the document that matches `filter`.
+   * @returns an object describing what was updated
+   */
+  async unsetOne(filter: Filter<Schema>, fields: (keyof WithoutBase<Schema> & string)[], options?: UpdateOptions): Promise<UpdateResult<Schema>> {
+    const unset = Object.fromEntries(fields.map((field) => [field, ""]));
+    return await this.collection.updateOne(filter, { $set: { dateUpdated: new Date() }, $unset: unset } as UpdateFilter<Schema>, this.inTransaction(options));
   }
 
   /**
@@ -118,7 +178,7 @@ export default class DocCollection<Schema extends BaseDoc> {
    * @returns an object describing what was deleted
    */
   async deleteOne(filter: Filter<Schema>, options?: DeleteOptions): Promise<DeleteResult> {
-    return await this.collection.deleteOne(filter, options);
+    return await this.collection.deleteOne(filter, this.inTransaction(options));
   }
 
   /**
@@ -126,7 +186,7 @@ export default class DocCollection<Schema extends BaseDoc> {
    * @returns an object describing what was deleted
    */
   async deleteMany(filter: Filter<Schema>, options?: DeleteOptions): Promise<DeleteResult> {
-    return await this.collection.deleteMany(filter, options);
+    return await this.collection.deleteMany(filter, this.inTransaction(options));
   }
 
   /**
@@ -134,7 +194,15 @@ export default class DocCollection<Schema extends BaseDoc> {
    * @returns the count
    */
   async count(filter: Filter<Schema>, options?: CountDocumentsOptions): Promise<number> {
-    return await this.collection.countDocuments(filter, options);
+    return await this.collection.countDocuments(filter, this.inTransaction(options));
+  }
+
+  /**
+   * Run the aggregation `pipeline` over the collection.
+   * @returns the documents that come out of the pipeline
+   */
+  async aggregate<Result extends Document>(pipeline: Document[], options?: AggregateOptions): Promise<Result[]> {
+    return await this.collection.aggregate<Result>(pipeline, this.inTransaction(options)).toArray();
   }
 
   /**
@@ -0,0 +1,34 @@
+import { appendFile } from "fs/promises";
+
+export interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers mail to users. Production deployments can implement this with their mail provider.
+ */
+export interface MailTransport {
+  send(mail: Mail): Promise<void>;
+}
+
+/**
+ * Prints mail to the console instead of sending it, for local development.
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(mail: Mail) {
+    console.log(`Mail to ${mail.to}: ${mail.subject}\n${mail.text}`);
+  }
+}
+
+/**
+ * Appends mail to a file, one JSON object per line, so that tests and developers can read what was sent.
+ */
+export class FileTransport implements MailTransport {
+  constructor(private readonly path: string) {}
+
+  async send(mail: Mail) {
+    await appendFile(this.path, JSON.stringify({ ...mail, sent: new Date() }) + "\n");
+  }
+}
@@ -1,4 +1,4 @@
-import express, { Request, Response } from "express";
+import express, { NextFunction, Request, Response } from "express";
 import "reflect-metadata";
 
 import { ZodSchema } from "zod";
@@ -52,6 +52,27 @@ export class Router {
     this.errorHandlers.set(etype as new (...args: never[]) => Error, handler as (e: Error) => Error | Promise<Error>);
   }
 
+  /**
+   * Make Express middleware from an async function that prepares a request, e.g. by setting its session.
+   * Errors it throws are answered like errors of routes, and the request goes no further.
+   */
+  public static middleware(prepare: (req: Request) => Promise<void>) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        await prepare(req);
+      } catch (e: unknown) {
+        await Router.respondWithError(res, e as Error);
+        return;
+      }
+      next();
+    };
+  }
+
+  private static async respondWithError(res: Response, e: Error) {
+    const error = (await Router.handleError(e)) as Error & { HTTP_CODE?: number };
+    res.status(error.HTTP_CODE ?? 500).json({ msg: error.message ?? "Internal Server Error" });
+  }
+
   private static async handleError(err: Error) {
     try {
       for (const [etype, handler] of this.errorHandlers) {
@@ -102,6 +123,15 @@ export class Router {
         if (name === "session" || name == "param" || name == "query" || name == "body") {
           return req[name];
         }
+        if (name === "ip") {
+          return req.ip;
+        }
+        if (name === "userAgent") {
+          return req.get("user-agent");
+        }
+        if (name === "sessionID") {
+          return req.sessionID;
+        }
         const ret = req.params[name] || req.query[name] || req.body[name];
         if (ret === undefined || ret === null) {
           // TODO: Can we know if this param was required?
@@ -133,8 +163,7 @@ export class Router {
           result = await result;
         }
       } catch (e: unknown) {
-        const error = (await Router.handleError(e as Error)) as Error & { HTTP_CODE?: number };
-        res.status(error.HTTP_CODE ?? 500).json({ msg: error.message ?? "Internal Server Error" });
+        await Router.respondWithError(res, e as Error);
         return;
       }
       res.json(result);
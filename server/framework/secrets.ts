@@ -0,0 +1,16 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Make a random secret, like an API token, from `bytes` random bytes.
+ */
+export function makeSecret(bytes = 32) {
+  return randomBytes(bytes).toString("base64url");
+}
+
+/**
+ * Hash a secret so that it can be stored and looked up without storing the secret itself.
+ * Secrets from `makeSecret` are long and random, so unlike passwords they are safe with a fast hash.
+ */
+export function hashSecret(secret: string) {
+  return createHash("sha256").update(secret).digest("hex");
+}
@@ -1,6 +1,15 @@
+import { ObjectId } from "mongodb";
 import { Authing } from "./app";
+import { ActivityDoc } from "./concepts/activity";
+import { CommentAuthorNotMatchError, CommentDoc } from "./concepts/commenting";
 import { AlreadyFriendsError, FriendNotFoundError, FriendRequestAlreadyExistsError, FriendRequestDoc, FriendRequestNotFoundError } from "./concepts/friending";
+import { InviteAlreadyExistsError, InviteDoc } from "./concepts/inviting";
 import { PostAuthorNotMatchError, PostDoc } from "./concepts/posting";
+import { RoleNotAllowedError } from "./concepts/roles";
+import { SessionOwnerNotMatchError } from "./concepts/sessioning";
+import { TaskProgress } from "./concepts/tasking";
+import { TemplateOwnerNotMatchError } from "./concepts/templating";
+import { TokenOwnerNotMatchError } from "./concepts/tokens";
 import { Router } from "./framework/router";
 
 /**
@@ -27,6 +36,54 @@ export default class Responses {
     return posts.map((post, i) => ({ ...post, author: authors[i] }));
   }
 
+  /**
+   * Convert CommentDoc into more readable format for the frontend by converting the author id into a username.
+   */
+  static async comment(comment: CommentDoc | null) {
+    if (!comment) {
+      return comment;
+    }
+    const author = await Authing.getUserById(comment.author);
+    return { ...comment, author: author.username };
+  }
+
+  /**
+   * Same as {@link comment} but for an array of CommentDoc for improved performance.
+   */
+  static async comments(comments: CommentDoc[]) {
+    const authors = await Authing.idsToUsernames(comments.map((comment) => comment.author));
+    return comments.map((comment, i) => ({ ...comment, author: authors[i] }));
+  }
+
+  /**
+   * Convert ActivityDoc into more readable format for the frontend by converting the actor id into a username.
+   */
+  static async activities(activities: ActivityDoc[]) {
+    const actors = await Authing.idsToUsernames(activities.map((activity) => activity.actor));
+    return activities.map((activity, i) => ({ ...activity, actor: actors[i] }));
+  }
+
+  /**
+   * Convert InviteDoc into more readable format for the frontend by converting the ids of the inviter and invitee into usernames.
+   */
+  static async invite(invite: InviteDoc | null) {
+    if (!invite) {
+      return invite;
+    }
+    const [from, to] = await Authing.idsToUsernames([invite.from, invite.to]);
+    return { ...invite, from, to };
+  }
+
+  /**
+   * Same as {@link invite} but for an array of InviteDoc for improved performance.
+   */
+  static async invites(invites: InviteDoc[]) {
+    const from = invites.map((invite) => invite.from);
+    const to = invites.map((invite) => invite.to);
+    const usernames = await Authing.idsToUsernames(from.concat(to));
+    return invites.map((invite, i) => ({ ...invite, from: usernames[i], to: usernames[i + invites.length] }));
+  }
+
   /**
    * Convert FriendRequestDoc into more readable format for the frontend
    * by converting the ids into usernames.
@@ -37,6 +94,15 @@ export default class Responses {
     const usernames = await Authing.idsToUsernames(from.concat(to));
     return requests.map((request, i) => ({ ...request, from: usernames[i], to: usernames[i + requests.length] }));
   }
+
+  /**
+   * Convert per-member task progress into more readable format for the frontend
+   * by converting the member ids into usernames.
+   */
+  static async memberProgress(members: ObjectId[], progress: TaskProgress[]) {
+    const usernames = await Authing.idsToUsernames(members);
+    return members.map((member, i) => ({ member: usernames[i], ...progress[i] }));
+  }
 }
 
 Router.registerError(PostAuthorNotMatchError, async (e) => {
@@ -44,6 +110,26 @@ Router.registerError(PostAuthorNotMatchError, async (e) => {
   return e.formatWith(username, e._id);
 });
 
+Router.registerError(CommentAuthorNotMatchError, async (e) => {
+  const username = (await Authing.getUserById(e.author)).username;
+  return e.formatWith(username, e._id);
+});
+
+Router.registerError(TemplateOwnerNotMatchError, async (e) => {
+  const username = (await Authing.getUserById(e.owner)).username;
+  return e.formatWith(username, e._id);
+});
+
+Router.registerError(RoleNotAllowedError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  return e.formatWith(username, e.permission, e.scope);
+});
+
+Router.registerError(InviteAlreadyExistsError, async (e) => {
+  const username = (await Authing.getUserById(e.to)).username;
+  return e.formatWith(username, e.scope);
+});
+
 Router.registerError(FriendRequestAlreadyExistsError, async (e) => {
   const [user1, user2] = await Promise.all([Authing.getUserById(e.from), Authing.getUserById(e.to)]);
   return e.formatWith(user1.username, user2.username);
@@ -63,3 +149,13 @@ Router.registerError(AlreadyFriendsError, async (e) => {
   const [user1, user2] = await Promise.all([Authing.getUserById(e.user1), Authing.getUserById(e.user2)]);
   return e.formatWith(user1.username, user2.username);
 });
+
+Router.registerError(TokenOwnerNotMatchError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  return e.formatWith(username, e._id);
+});
+
+Router.registerError(SessionOwnerNotMatchError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  return e.formatWith(username, e._id);
+});
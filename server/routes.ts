@@ -1,14 +1,51 @@
+import { Request } from "express";
 import { ObjectId } from "mongodb";
 
 import { Router, getExpressRouter } from "./framework/router";
 
-import { Authing, Friending, Posting, Project, ProjectMember, Sessioning, Task, TaskAssignee } from "./app";
+import {
+  Activity,
+  ApiToken,
+  Authing,
+  Friending,
+  IpLoginThrottle,
+  IpResetLimit,
+  Mailer,
+  Milestone,
+  MilestoneTask,
+  PasswordReset,
+  Plant,
+  Posting,
+  Project,
+  ProjectInvite,
+  ProjectMember,
+  ProjectRole,
+  ProjectTemplate,
+  Sessioning,
+  Status,
+  Task,
+  TaskAssignee,
+  TaskComment,
+  TaskDependency,
+  TaskSeries,
+  UserLoginThrottle,
+  UserResetLimit,
+} from "./app";
 import { PostOptions } from "./concepts/posting";
+import { ProjectDoc } from "./concepts/projects";
+import { RecurrenceRule } from "./concepts/recurring";
+import { Permission, Role } from "./concepts/roles";
 import { SessionDoc } from "./concepts/sessioning";
+import { StatusDoc } from "./concepts/statuses";
+import { DueFilter, STATS_PERIODS, StatsPeriod, StatusCount, TaskDoc, TaskSortField } from "./concepts/tasking";
+import { TemplateTask } from "./concepts/templating";
+import { LockedOutError } from "./concepts/throttling";
 import Responses from "./responses";
 
 import { z } from "zod";
-import { NotAllowedError } from "./concepts/errors";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./concepts/errors";
+import { withTransaction } from "./db";
+import { PROJECT_BUNDLE_VERSION, ProjectBundle, parseProjectBundle } from "./bundles";
 
 /**
  * Web server routes for the app. Implements synchronizations between concepts.
@@ -18,54 +55,156 @@ class Routes {
 
   /**
    * create project
-   * creator will be current session user with given name
+   * creator will be current session user with given name, and becomes the owner of the project
    * name must be unique
+   * the project starts with the default status columns (todo, in progress, in review, done)
    */
   @Router.post("/projects")
   async createProject(session: SessionDoc, name: string) {
     const user = Sessioning.getUser(session);
-    // get the project
-    const project = (await Project.create(user, name)).project;
-    // add creator as a member for that project
-    if (project) {
-      await ProjectMember.addGroupItem(project._id, user);
-    }
+    const project = await createOwnedProject(user, name);
 
     return { msg: "Successfully created project!", project: project };
   }
 
   /**
-   * delete project
-   * only the creator of the project can delete the project
+   * create project from one of the current user's templates
+   * the template's dates are counted from `start`, which defaults to now
+   * name must be unique
    */
-  @Router.delete("/projects/:id")
-  async deleteProject(session: SessionDoc, id: string) {
+  @Router.post("/projects/template")
+  async createProjectFromTemplate(session: SessionDoc, template: string, name: string, start?: string) {
+    const user = Sessioning.getUser(session);
+    const templateId = new ObjectId(template);
+
+    await ProjectTemplate.assertOwnerIsUser(templateId, user);
+    const templateDoc = await ProjectTemplate.getTemplate(templateId);
+
+    const project = await createOwnedProject(user, name, { template: templateId });
+    await createTemplateTasks(project._id, templateDoc.tasks, parseDate(start, "start") ?? new Date());
+    return { msg: "Successfully created project from template!", project };
+  }
+
+  /**
+   * duplicate a project with its tasks, their checklists and dates, but not their progress
+   * dates are shifted so that the earliest one falls on `start`, or kept as they are if `start` is not given
+   * if `members` is "true", the other members join the copy with the same roles (the owner of the original as a manager)
+   * only project members can do this, and carrying over members needs permission to manage the members of the original
+   */
+  @Router.post("/projects/:id/duplicate")
+  async duplicateProject(session: SessionDoc, id: string, name: string, members?: string, start?: string) {
     const user = Sessioning.getUser(session);
     const projectId = new ObjectId(id);
-    // only the creator should be able to delete the project
-    await Project.assertUserIsCreator(projectId, user);
-    await ProjectMember.deleteAllItemsInGroup(projectId);
-
-    // delete all task-assignee linkages associated with tasks
-    // get tasks for project
-    const projectTasks = await Task.getAllTasksForProject(projectId);
-    if (projectTasks) {
-      // if there are tasks, then we iterate through task-assignee linakges for those tasks
-      for (let i = 0; i < projectTasks.length; i++) {
-        const task = projectTasks[i];
-        const taskId = task._id;
-        // remove all assignee linkages to that task (i.e. delete the task)
-        await TaskAssignee.deleteAllItemsInGroup(taskId);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+    const withMembers = parseFlag(members);
+    if (withMembers) {
+      await assertProjectRole(projectId, user, "manageMembers");
+    }
+
+    const tasks = (await getBoard(projectId)).flatMap((column) => column.tasks);
+    const template = ProjectTemplate.toTemplateTasks(tasks);
+    const project = await createOwnedProject(user, name, { duplicateOf: projectId });
+    await createTemplateTasks(project._id, template.tasks, parseDate(start, "start") ?? template.anchor ?? new Date());
+
+    if (withMembers) {
+      for (const role of await ProjectRole.getRoles(projectId)) {
+        if (role.user.toString() === user.toString()) {
+          continue;
+        }
+        await ProjectMember.addGroupItem(project._id, role.user);
+        await ProjectRole.assign(project._id, role.user, role.role === "owner" ? "manager" : role.role);
       }
     }
+    return { msg: "Successfully duplicated project!", project };
+  }
+
+  /**
+   * save the tasks of a project as a template of the current user:
+   * their descriptions, checklists and dates relative to the earliest date among them
+   * only project members can do this
+   */
+  @Router.post("/templates")
+  async createTemplate(session: SessionDoc, project: string, name: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    const tasks = (await getBoard(projectId)).flatMap((column) => column.tasks);
+    return await ProjectTemplate.create(user, name, ProjectTemplate.toTemplateTasks(tasks).tasks);
+  }
+
+  /**
+   * get the templates of the current user
+   */
+  @Router.get("/templates")
+  async getTemplates(session: SessionDoc) {
+    const user = Sessioning.getUser(session);
+    return await ProjectTemplate.getTemplatesForOwner(user);
+  }
+
+  /**
+   * delete a template
+   * only the owner of the template can do this
+   */
+  @Router.delete("/templates/:id")
+  async deleteTemplate(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const templateId = new ObjectId(id);
+
+    await ProjectTemplate.assertOwnerIsUser(templateId, user);
+    return await ProjectTemplate.delete(templateId);
+  }
+
+  /**
+   * archive project, hiding it from the user's projects and making it read-only
+   * only the owner of the project can do this
+   */
+  @Router.patch("/projects/:id/archive")
+  async archiveProject(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(id);
+    await assertProjectPermission(projectId, user, "deleteProject");
+
+    const archived = await Project.archive(projectId);
+    await Activity.record(projectId, user, "project.archive", projectId);
+    return archived;
+  }
+
+  /**
+   * restore an archived project
+   * only the owner of the project can do this
+   */
+  @Router.patch("/projects/:id/restore")
+  async restoreProject(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(id);
+    await assertProjectRole(projectId, user, "deleteProject");
 
-    // delete all tasks associated with the project
-    await Task.deleteTasksForProject(projectId);
-    return await Project.deleteProject(projectId);
+    const restored = await Project.restore(projectId);
+    await Activity.record(projectId, user, "project.restore", projectId);
+    return restored;
   }
 
   /**
-   * get project given either a name or ID
+   * delete project permanently
+   * only the owner of the project can delete the project,
+   * once it has been archived for longer than the deletion grace period
+   */
+  @Router.delete("/projects/:id")
+  async deleteProject(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(id);
+    await assertProjectRole(projectId, user, "deleteProject");
+    await Project.assertCanBeDeleted(projectId);
+
+    // everything that belongs to the project is deleted in one transaction, so that a failure leaves nothing orphaned
+    return await withTransaction(() => deleteProjectAndContents(projectId));
+  }
+
+  /**
+   * get project given either a name or ID, along with the state of its plant if the user is a member
    */
   @Router.get("/projects")
   async getProject(session: SessionDoc, name?: string, id?: string) {
@@ -76,72 +215,213 @@ class Routes {
       projectId = new ObjectId(id);
       await ProjectMember.assertItemInGroup(projectId, user);
       project = await Project.getProject(projectId);
+      return project && (await withPlants([project], user))[0];
     } else if (name) {
       project = await Project.getProjectByName(name);
     } else {
       throw new NotAllowedError("Did not specify project to fetch!");
     }
-    return project;
+    return await withPlants(project, user);
   }
 
   /**
-   * get projects that a user is a part of
+   * get projects that a user is a part of, each with the state of its plant
+   * archived projects are left out unless `archived` is "true"
    */
   @Router.get("/user/projects")
-  async getUserProjects(session: SessionDoc) {
+  async getUserProjects(session: SessionDoc, archived?: string) {
+    const user = Sessioning.getUser(session);
+    const memberships = await ProjectMember.getGroupsForItem(user);
+    const projects = await Project.getProjects(
+      memberships.map((membership) => membership.group),
+      parseFlag(archived),
+    );
+    return await withPlants(projects, user);
+  }
+
+  /**
+   * get the plant of a project and how it changed, newest first
+   * pass `since` to only get the changes after that date, e.g. the `changed` date of the plant the client last showed
+   * only project members can do this
+   */
+  @Router.get("/project/plant")
+  async getProjectPlant(session: SessionDoc, project: string, since?: string) {
     const user = Sessioning.getUser(session);
-    return await ProjectMember.getGroupsForItem(user);
+    const projectId = new ObjectId(project);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    const projectDoc = await Project.getProject(projectId);
+    if (!projectDoc) {
+      throw new NotFoundError(`Project ${projectId} does not exist!`);
+    }
+    return { plant: await tendPlant(projectDoc), transitions: await Plant.getTransitions(projectId, parseDate(since, "since")) };
   }
 
   /**
    * update project name
-   * only creator of project can change project
+   * only owners and managers of the project can do this
    */
   @Router.patch("/project/name")
   async updateProjectName(session: SessionDoc, id: string, name: string) {
     const user = Sessioning.getUser(session);
     const projectId = new ObjectId(id);
-    // only the creator should be able to update project anme
-    await Project.assertUserIsCreator(projectId, user);
+    await assertProjectPermission(projectId, user, "renameProject");
 
-    return await Project.updateProjectName(projectId, name);
+    const before = (await Project.getProject(projectId))?.name;
+    const updated = await Project.updateProjectName(projectId, name);
+    await Activity.record(projectId, user, "project.rename", projectId, { name: before }, { name });
+    return updated;
   }
 
   /**
-   * update project manager
-   * only creator of project can change project
-   * only other members of the project can be assigned as the new manager
+   * transfer ownership of a project to another member
+   * only the owner of the project can do this, and stays on as a manager
+   * only other members of the project can become the new owner
    */
   @Router.patch("/project/manager")
   async updateProjectManager(session: SessionDoc, id: string, manager: string) {
     const user = Sessioning.getUser(session);
     const projectId = new ObjectId(id);
-    // only the creator should be able to update project anme
-    await Project.assertUserIsCreator(projectId, user);
+    await assertProjectPermission(projectId, user, "transferOwnership");
+
+    const ownerId = new ObjectId(manager);
+    // new owner must already be a member of the project
+    await ProjectMember.assertItemInGroup(projectId, ownerId);
+    if (ownerId.toString() === user.toString()) {
+      throw new NotAllowedError("You already own this project!");
+    }
+    await ProjectRole.assign(projectId, ownerId, "owner");
+    await ProjectRole.assign(projectId, user, "manager");
+    const updated = await Project.updateProjectCreator(projectId, ownerId);
+    await Activity.record(projectId, user, "project.owner", projectId, { owner: user }, { owner: ownerId });
+    return updated;
+  }
+
+  /**
+   * invite a user to a project by username, with a role: "manager", "contributor" (default) or "viewer"
+   * the user only becomes a member once they accept the invite
+   * only owners and managers of the project can invite members, and only owners can invite managers
+   */
+  @Router.post("/project/invites")
+  async inviteToProject(session: SessionDoc, project: string, username: string, role?: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+    const invitee = (await Authing.getUserByUsername(username))._id;
+
+    const inviteRole = await assertCanGrantRole(projectId, user, role ?? "contributor");
+    if (await ProjectMember.isItemInGroup(projectId, invitee)) {
+      throw new NotAllowedError(`${username} is already a member of this project!`);
+    }
+    const sent = await ProjectInvite.sendInvite(projectId, user, invitee, inviteRole);
+    await Activity.record(projectId, user, "invite.send", sent.invite!._id, undefined, { invitee, role: inviteRole });
+    return { msg: sent.msg, invite: await Responses.invite(sent.invite) };
+  }
+
+  /**
+   * get the pending invites of a project
+   * only owners and managers of the project can do this
+   */
+  @Router.get("/project/invites")
+  async getProjectInvites(session: SessionDoc, project: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+
+    await assertProjectRole(projectId, user, "manageMembers");
+
+    return await Responses.invites(await ProjectInvite.getPendingForScope(projectId));
+  }
+
+  /**
+   * cancel a pending invite
+   * only owners and managers of the project can do this
+   */
+  @Router.delete("/project/invites/:id")
+  async cancelProjectInvite(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const inviteId = new ObjectId(id);
+
+    const invite = await ProjectInvite.getInvite(inviteId);
+    await assertProjectPermission(invite.scope, user, "manageMembers");
+
+    const cancelled = await ProjectInvite.cancelInvite(inviteId);
+    await Activity.record(invite.scope, user, "invite.cancel", inviteId, { invitee: invite.to, role: invite.role }, undefined);
+    return { msg: cancelled.msg };
+  }
+
+  /**
+   * get the invites to projects that the current user can still accept, along with the name of each project
+   */
+  @Router.get("/user/invites")
+  async getUserInvites(session: SessionDoc) {
+    const user = Sessioning.getUser(session);
+    const invites = await Responses.invites(await ProjectInvite.getPendingForUser(user));
+    const projects = await Promise.all(invites.map((invite) => Project.getProject(invite.scope)));
+    return invites.map((invite, i) => ({ ...invite, projectName: projects[i]?.name }));
+  }
+
+  /**
+   * accept an invite, joining the project with the role given in the invite
+   * only the invitee can do this, before the invite expires
+   */
+  @Router.put("/user/invites/:id/accept")
+  async acceptProjectInvite(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+
+    // the invite is only used up if joining succeeds, e.g. not while the project is archived
+    return await withTransaction(async () => {
+      const { invite } = await ProjectInvite.acceptInvite(new ObjectId(id), user);
+      const role = ProjectRole.assertValidRole(invite.role);
+
+      await backfillProjectRoles(invite.scope);
+      await Project.assertNotArchived(invite.scope);
+      // the user may have been invited twice, and accepted the other invite already
+      if (!(await ProjectMember.isItemInGroup(invite.scope, user))) {
+        await ProjectMember.addGroupItem(invite.scope, user);
+        await ProjectRole.assign(invite.scope, user, role);
+      }
+      await Activity.record(invite.scope, user, "member.join", user, undefined, { role, invitedBy: invite.from });
+      return { msg: "Joined project!", project: invite.scope };
+    });
+  }
 
-    const managerId = new ObjectId(manager);
-    // new manager must already be a member of the project
-    await ProjectMember.assertItemInGroup(projectId, managerId);
-    return await Project.updateProjectCreator(projectId, managerId);
+  /**
+   * decline an invite
+   * only the invitee can do this
+   */
+  @Router.put("/user/invites/:id/reject")
+  async rejectProjectInvite(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const { msg, invite } = await ProjectInvite.rejectInvite(new ObjectId(id), user);
+    await Activity.record(invite.scope, user, "invite.reject", invite._id, { invitee: user, role: invite.role }, undefined);
+    return { msg };
   }
 
   /**
-   * add a member to a project
-   * only creator of project can add a member to the project
+   * change the role of a member of a project to "manager", "contributor" or "viewer"
+   * only owners and managers of the project can do this, and only owners can make or unmake managers
+   * the owner's role can only change by transferring ownership
    */
-  @Router.post("/project/members")
-  async addMemberToProject(session: SessionDoc, id: string, member: string) {
+  @Router.patch("/project/members/role")
+  async updateMemberRole(session: SessionDoc, id: string, member: string, role: string) {
     const user = Sessioning.getUser(session);
     const projectId = new ObjectId(id);
-    const newMember = new ObjectId(member);
+    const memberId = new ObjectId(member);
 
-    await Project.assertUserIsCreator(projectId, user);
-    return await ProjectMember.addGroupItem(projectId, newMember);
+    const newRole = await assertCanGrantRole(projectId, user, role);
+    await ProjectMember.assertItemInGroup(projectId, memberId);
+    const current = await getProjectRole(projectId, memberId);
+    await assertCanChangeMember(projectId, user, current);
+
+    const updated = await ProjectRole.assign(projectId, memberId, newRole);
+    await Activity.record(projectId, user, "member.role", memberId, { role: current }, { role: newRole });
+    return updated;
   }
 
   /**
    * delete a member from a project
-   * only creator of project can delete a member from the project
+   * only owners and managers of the project can delete members, and only owners can delete managers
+   * the owner cannot be deleted
    */
   @Router.delete("/project/members")
   async deleteMemberFromProject(session: SessionDoc, id: string, member: string) {
@@ -149,16 +429,23 @@ class Routes {
     const projectId = new ObjectId(id);
     const memberToDelete = new ObjectId(member);
 
-    await Project.assertUserIsCreator(projectId, user);
+    await assertProjectPermission(projectId, user, "manageMembers");
+    const role = await getProjectRole(projectId, memberToDelete);
+    await assertCanChangeMember(projectId, user, role);
 
-    // remove member as an assignee from all tasks it is a part of
-    await TaskAssignee.deleteItemFromAllGroups(memberToDelete);
+    return await withTransaction(async () => {
+      // unassign the member from the project's tasks; their tasks in other projects are left alone
+      await TaskAssignee.removeItemFromGroups(await Task.getTaskIdsForProject(projectId), memberToDelete);
 
-    return await ProjectMember.removeGroupItem(projectId, memberToDelete);
+      const removed = await ProjectMember.removeGroupItem(projectId, memberToDelete);
+      await ProjectRole.remove(projectId, memberToDelete);
+      await Activity.record(projectId, user, "member.remove", memberToDelete, { role }, undefined);
+      return removed;
+    });
   }
 
   /**
-   * get all members in a project
+   * get all members in a project, each with their role
    */
   @Router.get("/project/members")
   async getAllMembersInProject(session: SessionDoc, id: string) {
@@ -167,23 +454,28 @@ class Routes {
 
     await ProjectMember.assertItemInGroup(projectId, user);
 
-    return await ProjectMember.getItemsInGroup(projectId);
+    await backfillProjectRoles(projectId);
+    const roles = new Map((await ProjectRole.getRoles(projectId)).map((role) => [role.user.toString(), role.role]));
+    return (await ProjectMember.getItemsInGroup(projectId)).map((member) => ({ ...member, role: roles.get(member.item.toString()) }));
   }
 
   /**
    * create task
-   * only project manager can create tasks for that project
-   * TODO: linking functionality? do we add a generic "comments" field that just takes longer string input?
-   * TODO: consider if we should limit the task description length (ex: 100 characters), then have extra "comments"
-   * box for more detail
+   * only owners, managers and contributors can create tasks for that project
+   * start and due dates are optional
+   * TODO: consider if we should limit the task description length (ex: 100 characters),
+   * now that task comments can hold more detail
    */
   @Router.post("/project/tasks")
-  async createTask(session: SessionDoc, project: string, description: string, assignee?: string) {
+  async createTask(session: SessionDoc, project: string, description: string, assignee?: string, start?: string, due?: string) {
     const user = Sessioning.getUser(session);
     const projectId = new ObjectId(project);
 
-    await Project.assertUserIsCreator(projectId, user);
-    const task = await Task.create(description, projectId);
+    await assertProjectPermission(projectId, user, "createTasks");
+    const dates = { start: parseDate(start, "start"), due: parseDate(due, "due") };
+    // new tasks go to the end of the project's first status column
+    await Status.createDefaults(projectId);
+    const task = await Task.create(description, projectId, dates, (await Status.getInitial(projectId))?._id);
     let assigneeId;
     if (assignee) {
       assigneeId = new ObjectId(assignee);
@@ -195,77 +487,357 @@ class Routes {
       await TaskAssignee.addGroupItem(task.task._id, assigneeId);
     }
 
+    if (task.task) {
+      await Activity.record(projectId, user, "task.create", task.task._id, undefined, { description, ...dates, assignee: assigneeId });
+    }
     return task;
   }
 
+  /**
+   * create a recurring task, e.g. { frequency: "weekly", weekdays: [1, 4] } or { frequency: "monthly", dayOfMonth: 1 }
+   * the first occurrence is due on the first matching date from `start` (default now),
+   * and completing an occurrence creates the next one with the same description and assignees
+   * only owners, managers and contributors can create tasks for that project
+   */
+  @Router.post("/project/recurring")
+  async createRecurringTask(session: SessionDoc, project: string, description: string, rule: RecurrenceRule, assignee?: string, start?: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+
+    await assertProjectPermission(projectId, user, "createTasks");
+    const assigneeId = assignee ? new ObjectId(assignee) : undefined;
+    if (assigneeId) {
+      // assert that the user assigned is actually a member of the project
+      await ProjectMember.assertItemInGroup(projectId, assigneeId);
+    }
+
+    const created = await TaskSeries.create(projectId, description, rule);
+    const series = created.series!;
+    const due = TaskSeries.firstOccurrence(series.rule, parseDate(start, "start") ?? new Date());
+    await Status.createDefaults(projectId);
+    const task = (await Task.create(description, projectId, { due }, (await Status.getInitial(projectId))?._id, series._id)).task!;
+    await TaskSeries.setLatest(series._id, task._id);
+    if (assigneeId) {
+      await TaskAssignee.addGroupItem(task._id, assigneeId);
+    }
+    await Activity.record(projectId, user, "series.create", series._id, undefined, { description, rule: series.rule, assignee: assigneeId });
+    await Activity.record(projectId, user, "task.create", task._id, undefined, { description, due, assignee: assigneeId });
+
+    return { msg: created.msg, series: await TaskSeries.getSeries(series._id), task };
+  }
+
+  /**
+   * get the recurring tasks of a project
+   * only project members can see them
+   */
+  @Router.get("/project/recurring")
+  async getRecurringTasks(session: SessionDoc, project: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    return await TaskSeries.getSeriesForProject(projectId);
+  }
+
+  /**
+   * edit the description and/or rule of a recurring task
+   * occurrences that are not completed yet get the new description, completed ones are left untouched
+   * only members who can edit tasks can do this
+   */
+  @Router.patch("/project/recurring/:id")
+  async updateRecurringTask(session: SessionDoc, id: string, description?: string, rule?: RecurrenceRule) {
+    const user = Sessioning.getUser(session);
+    const seriesId = new ObjectId(id);
+
+    const series = await TaskSeries.getSeries(seriesId);
+    await assertProjectPermission(series.project, user, "editTasks");
+
+    const updated = await TaskSeries.update(seriesId, description, rule);
+    if (description !== undefined) {
+      await Task.updateOpenInSeries(seriesId, description);
+    }
+    const after = await TaskSeries.getSeries(seriesId);
+    await Activity.record(series.project, user, "series.update", seriesId, { description: series.description, rule: series.rule }, { description: after.description, rule: after.rule });
+    return updated;
+  }
+
+  /**
+   * stop a recurring task so that no further occurrences are created
+   * existing occurrences are kept as regular tasks
+   * only members who can edit tasks can do this
+   */
+  @Router.delete("/project/recurring/:id")
+  async stopRecurringTask(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const seriesId = new ObjectId(id);
+
+    const series = await TaskSeries.getSeries(seriesId);
+    await assertProjectPermission(series.project, user, "editTasks");
+
+    const stopped = await TaskSeries.stop(seriesId);
+    await Activity.record(series.project, user, "series.stop", seriesId);
+    return stopped;
+  }
+
   /**
    * delete task
-   * only project manager can delete tasks for that project
+   * only owners and managers can delete tasks for that project
    */
   @Router.delete("/project/tasks/:id")
   async deleteTask(session: SessionDoc, task: string) {
     const user = Sessioning.getUser(session);
     const taskId = new ObjectId(task);
 
-    const projectId = (await Task.getTask(taskId))?.project;
-    if (!projectId) {
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
       throw new NotAllowedError("Task does not exist!");
     }
-    await Project.assertUserIsCreator(projectId, user);
+    await assertProjectPermission(taskDoc.project, user, "deleteTasks");
+
+    await withTransaction(async () => {
+      await deleteTaskLinks(taskId);
+      await Task.delete(taskId);
+      await Activity.record(taskDoc.project, user, "task.delete", taskId, { description: taskDoc.description });
+    });
+  }
+
+  /**
+   * apply one operation to many tasks at once
+   * `operation` is one of "complete", "reopen", "assign", "unassign", "delete" or "move"
+   * - "assign" needs `assignee` (user id), "unassign" removes `assignee` or, if not given, all assignees
+   * - "move" needs `project`, the id of the project the tasks are moved to
+   * needs the same permission as the single-task operation; permissions are checked once per project
+   * returns a result for each task id, in the order given
+   */
+  @Router.post("/project/tasks/bulk")
+  async bulkUpdateTasks(session: SessionDoc, operation: string, tasks: string[] | string, assignee?: string, project?: string) {
+    const user = Sessioning.getUser(session);
+
+    if (!BULK_OPERATIONS.includes(operation as BulkOperation)) {
+      throw new BadValuesError(`Unknown operation ${operation}! Expected one of ${BULK_OPERATIONS.join(", ")}.`);
+    }
+    const requested = typeof tasks === "string" ? tasks.split(",").map((id) => id.trim()) : tasks;
+    if (!Array.isArray(requested) || requested.length === 0) {
+      throw new BadValuesError("Must give at least one task!");
+    }
+    const assigneeId = assignee ? new ObjectId(assignee) : undefined;
+    if (operation === "assign" && !assigneeId) {
+      throw new BadValuesError("Must give an assignee to assign tasks to!");
+    }
+    let target;
+    if (operation === "move") {
+      if (!project) {
+        throw new BadValuesError("Must give a project to move tasks to!");
+      }
+      target = new ObjectId(project);
+      await assertProjectPermission(target, user, "createTasks");
+    }
+
+    const valid = requested.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id));
+    const found = new Map((await Task.getTasks(valid)).map((task) => [task._id.toString(), task]));
+
+    // check permissions (and assignee membership) once per project instead of once per task
+    const denied = new Map<string, string>();
+    for (const projectId of new Set([...found.values()].map((task) => task.project.toString()))) {
+      try {
+        await assertProjectPermission(new ObjectId(projectId), user, BULK_PERMISSIONS[operation as BulkOperation]);
+        if (operation === "assign") {
+          await ProjectMember.assertItemInGroup(new ObjectId(projectId), assigneeId!);
+        }
+      } catch (e: unknown) {
+        denied.set(projectId, (e as Error).message);
+      }
+    }
 
-    // remove all instances of task-assignee links
-    await TaskAssignee.deleteAllItemsInGroup(taskId);
+    const results = [];
+    for (const id of requested) {
+      const task = ObjectId.isValid(id) ? found.get(new ObjectId(id).toString()) : undefined;
+      if (!task) {
+        results.push({ task: id, ok: false, msg: "Task does not exist!" });
+        continue;
+      }
+      const reason = denied.get(task.project.toString());
+      if (reason) {
+        results.push({ task: id, ok: false, msg: reason });
+        continue;
+      }
+      try {
+        const { msg } = await applyBulkOperation(operation as BulkOperation, task, user, assigneeId, target);
+        results.push({ task: id, ok: true, msg });
+      } catch (e: unknown) {
+        results.push({ task: id, ok: false, msg: (e as Error).message });
+      }
+    }
 
-    await Task.delete(taskId);
+    const succeeded = results.filter((result) => result.ok).length;
+    return { msg: `Applied ${operation} to ${succeeded} of ${results.length} tasks.`, results };
   }
 
   /**
    * get all tasks for a project
    * only project members are able to see the tasks for a project
+   * optionally filter by due date: `due` is "overdue" or "week" (due this week),
+   * and `from`/`to` only keep tasks due between those dates
+   * if `graph` is "true", also returns the dependency links between the tasks,
+   * a topological order of the tasks, and the open tasks that are not blocked by any open task
    */
   @Router.get("/project/tasks")
-  async getTasksForProject(session: SessionDoc, project: string) {
+  async getTasksForProject(session: SessionDoc, project: string, due?: string, from?: string, to?: string, graph?: string) {
     const user = Sessioning.getUser(session);
     const projectId = new ObjectId(project);
 
     await ProjectMember.assertItemInGroup(projectId, user);
 
-    return await Task.getAllTasksForProject(projectId);
+    const tasks = await Task.getAllTasksForProject(projectId, parseDueFilter(due, from, to));
+    if (!parseFlag(graph)) {
+      return tasks;
+    }
+    return { tasks, ...(await getDependencyGraph(tasks)) };
   }
 
   /**
    * get all tasks for a user
    * current user can only see their own tasks
+   * returns the task documents assigned to the user (rather than the assignment links it used to return),
+   * leaving out tasks of archived projects and of projects the user is no longer a member of
+   * accepts the same due date filters as getting the tasks for a project
    */
   @Router.get("/user/tasks")
-  async getTasksForUser(session: SessionDoc) {
+  async getTasksForUser(session: SessionDoc, due?: string, from?: string, to?: string) {
+    const user = Sessioning.getUser(session);
+
+    const assigned = (await TaskAssignee.getGroupsForItem(user)).map((link) => link.group);
+    const memberOf = (await ProjectMember.getGroupsForItem(user)).map((membership) => membership.group);
+    const active = new Set((await Project.getProjects(memberOf)).map((project) => project._id.toString()));
+    const tasks = await Task.getTasks(assigned, parseDueFilter(due, from, to));
+    return tasks.filter((task) => active.has(task.project.toString()));
+  }
+
+  /**
+   * search tasks across the projects that the current user is a member of
+   * all filters are optional:
+   * - `projects`: comma-separated project ids (projects the user is not a member of are ignored)
+   * - `assignee`: username of an assignee
+   * - `completion`: "true" or "false"
+   * - `text`: case-insensitive text in the description
+   * - `createdFrom`/`createdTo` and `updatedFrom`/`updatedTo`: date ranges
+   * results are sorted by `sort` (dateCreated, dateUpdated, description, completion, due or project)
+   * in `order` ("asc" or "desc"), and paginated by passing the returned `next` cursor back as `cursor`
+   */
+  @Router.get("/tasks")
+  async searchTasks(
+    session: SessionDoc,
+    projects?: string,
+    assignee?: string,
+    completion?: string,
+    text?: string,
+    createdFrom?: string,
+    createdTo?: string,
+    updatedFrom?: string,
+    updatedTo?: string,
+    sort?: string,
+    order?: string,
+    cursor?: string,
+    limit?: string,
+  ) {
     const user = Sessioning.getUser(session);
 
-    // should return all tasks associated with user
-    return await TaskAssignee.getGroupsForItem(user);
+    // users only ever see tasks from projects they belong to
+    const memberOf = (await ProjectMember.getGroupsForItem(user)).map((membership) => membership.group);
+    const requested = projects?.split(",").map((id) => id.trim());
+    const visible = requested ? memberOf.filter((project) => requested.includes(project.toString())) : memberOf;
+
+    let ids;
+    if (assignee) {
+      const assigneeId = (await Authing.getUserByUsername(assignee))._id;
+      ids = (await TaskAssignee.getGroupsForItem(assigneeId)).map((link) => link.group);
+    }
+    if (completion !== undefined && completion !== "true" && completion !== "false") {
+      throw new BadValuesError(`completion must be "true" or "false", got ${completion}!`);
+    }
+    if (order !== undefined && order !== "asc" && order !== "desc") {
+      throw new BadValuesError(`order must be "asc" or "desc", got ${order}!`);
+    }
+
+    return await Task.search({
+      projects: visible,
+      ids,
+      completion: completion === undefined ? undefined : parseFlag(completion),
+      text,
+      created: { from: parseDate(createdFrom, "createdFrom"), to: parseDate(createdTo, "createdTo") },
+      updated: { from: parseDate(updatedFrom, "updatedFrom"), to: parseDate(updatedTo, "updatedTo") },
+      sort: sort as TaskSortField | undefined,
+      order,
+      cursor,
+      limit: parseInteger(limit, "limit"),
+    });
   }
 
   /**
    * update task description
-   * only project manager can update details for a project's tasks
+   * only members who can edit tasks can update details for a project's tasks
    */
   @Router.patch("/project/task/description")
   async updateTaskDescription(session: SessionDoc, task: string, description: string) {
     const user = Sessioning.getUser(session);
     const taskId = new ObjectId(task);
 
-    const projectId = (await Task.getTask(taskId))?.project;
-    if (!projectId) {
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
       throw new NotAllowedError("Task does not exist!");
     }
-    await Project.assertUserIsCreator(projectId, user);
+    await assertProjectPermission(taskDoc.project, user, "editTasks");
 
     await Task.updateDescription(taskId, description);
+    await Activity.record(taskDoc.project, user, "task.rename", taskId, { description: taskDoc.description }, { description });
+  }
+
+  /**
+   * update task start and/or due date
+   * dates that are not given are left unchanged
+   * only members who can edit tasks can update details for a project's tasks
+   */
+  @Router.patch("/project/task/dates")
+  async updateTaskDates(session: SessionDoc, task: string, start?: string, due?: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertProjectPermission(taskDoc.project, user, "editTasks");
+
+    const dates = { start: parseDate(start, "start"), due: parseDate(due, "due") };
+    const updated = await Task.updateDates(taskId, dates);
+    await Activity.record(taskDoc.project, user, "task.dates", taskId, { start: taskDoc.start, due: taskDoc.due }, { start: dates.start ?? taskDoc.start, due: dates.due ?? taskDoc.due });
+    return updated;
+  }
+
+  /**
+   * remove task start and due date
+   * only members who can edit tasks can update details for a project's tasks
+   */
+  @Router.delete("/project/task/dates")
+  async clearTaskDates(session: SessionDoc, task: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertProjectPermission(taskDoc.project, user, "editTasks");
+
+    const cleared = await Task.clearDates(taskId);
+    await Activity.record(taskDoc.project, user, "task.dates", taskId, { start: taskDoc.start, due: taskDoc.due }, {});
+    return cleared;
   }
 
   /**
    * update the user that the task is assigned to
-   * only manager of the project for that task can do this
+   * only members who can edit tasks can do this
    * this should be called if a user is being added to a task
    *
    * IMPORTANT: call unassignTask() first before adding task assignees
@@ -281,16 +853,18 @@ class Routes {
     if (!projectId) {
       throw new NotAllowedError("Task does not exist!");
     }
-    await Project.assertUserIsCreator(projectId, user);
+    await assertProjectPermission(projectId, user, "editTasks");
 
     // set user as new assignee
     const assigneeId = new ObjectId(assignee);
-    return await TaskAssignee.addGroupItem(taskId, assigneeId);
+    const added = await TaskAssignee.addGroupItem(taskId, assigneeId);
+    await Activity.record(projectId, user, "task.assign", taskId, undefined, { assignee: assigneeId });
+    return added;
   }
 
   /**
    * unassign task
-   * only manager of the project for that task can do this
+   * only members who can edit tasks can do this
    */
   @Router.delete("/project/task/assignees")
   async unassignTask(session: SessionDoc, task: string) {
@@ -301,86 +875,982 @@ class Routes {
     if (!projectId) {
       throw new NotAllowedError("Task does not exist!");
     }
-    await Project.assertUserIsCreator(projectId, user);
+    await assertProjectPermission(projectId, user, "editTasks");
 
     // deletes all task-assignee linkages for that task
-    return await TaskAssignee.deleteAllItemsInGroup(taskId);
+    const assignees = (await TaskAssignee.getItemsInGroup(taskId)).map((assignee) => assignee.item);
+    const removed = await TaskAssignee.deleteAllItemsInGroup(taskId);
+    await Activity.record(projectId, user, "task.unassign", taskId, { assignees }, { assignees: [] });
+    return removed;
   }
 
   /**
-   * get assignees for a task
-   * only members of a project can do this
+   * mark a task as completed, moving it to the project's terminal status column
+   * only assignees of the task and members who can edit tasks can do this
+   * a task cannot be completed while any task blocking it is still open
    */
-  @Router.get("/project/task/assignees")
-  async getAssigneesForTask(session: SessionDoc, task: string) {
+  @Router.patch("/project/task/complete")
+  async completeTask(session: SessionDoc, task: string) {
     const user = Sessioning.getUser(session);
     const taskId = new ObjectId(task);
 
-    const projectId = (await Task.getTask(taskId))?.project;
-    if (!projectId) {
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
       throw new NotAllowedError("Task does not exist!");
     }
-    await ProjectMember.assertItemInGroup(projectId, user);
+    await assertCanCompleteTask(taskDoc, user);
+    await Task.assertTasksCompleted(await TaskDependency.getDependencies(taskId));
 
-    // gets all task-assignee linkages for that task
-    return await TaskAssignee.getItemsInGroup(taskId);
+    return await setTaskCompletion(taskDoc, true, user);
   }
 
-  @Router.get("/session")
-  async getSessionUser(session: SessionDoc) {
+  /**
+   * reopen a completed task, moving it back to the project's first status column
+   * only assignees of the task and members who can edit tasks can do this
+   */
+  @Router.patch("/project/task/reopen")
+  async reopenTask(session: SessionDoc, task: string) {
     const user = Sessioning.getUser(session);
-    return await Authing.getUserById(user);
-  }
-
-  @Router.get("/users")
-  async getUsers() {
-    return await Authing.getUsers();
-  }
+    const taskId = new ObjectId(task);
 
-  @Router.get("/users/:username")
-  @Router.validate(z.object({ username: z.string().min(1) }))
-  async getUser(username: string) {
-    return await Authing.getUserByUsername(username);
-  }
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertCanCompleteTask(taskDoc, user);
 
-  @Router.post("/users")
-  async createUser(session: SessionDoc, username: string, password: string) {
-    Sessioning.isLoggedOut(session);
-    return await Authing.create(username, password);
+    return await setTaskCompletion(taskDoc, false, user);
   }
 
-  @Router.patch("/users/username")
-  async updateUsername(session: SessionDoc, username: string) {
+  /**
+   * get the kanban board of a project: its status columns in order, each with its tasks in order
+   * only project members can do this
+   */
+  @Router.get("/project/board")
+  async getProjectBoard(session: SessionDoc, project: string) {
     const user = Sessioning.getUser(session);
-    return await Authing.updateUsername(user, username);
+    const projectId = new ObjectId(project);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    return await getBoard(projectId);
   }
 
-  @Router.patch("/users/password")
-  async updatePassword(session: SessionDoc, currentPassword: string, newPassword: string) {
+  /**
+   * get the status columns of a project in order
+   * only project members can do this
+   */
+  @Router.get("/project/statuses")
+  async getProjectStatuses(session: SessionDoc, project: string) {
     const user = Sessioning.getUser(session);
-    return Authing.updatePassword(user, currentPassword, newPassword);
+    const projectId = new ObjectId(project);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    await Status.createDefaults(projectId);
+    return await Status.getStatuses(projectId);
   }
 
-  @Router.delete("/users")
-  async deleteUser(session: SessionDoc) {
+  /**
+   * add a status column to a project, at the end unless a position is given
+   * only owners and managers of the project can do this
+   */
+  @Router.post("/project/statuses")
+  async createProjectStatus(session: SessionDoc, project: string, name: string, position?: string) {
     const user = Sessioning.getUser(session);
-    Sessioning.end(session);
-    return await Authing.delete(user);
+    const projectId = new ObjectId(project);
+
+    await assertProjectPermission(projectId, user, "manageBoard");
+
+    await Status.createDefaults(projectId);
+    const created = await Status.create(projectId, name, parseInteger(position, "position"));
+    await Activity.record(projectId, user, "status.create", created.status!._id, undefined, { name, position: created.status!.position });
+    return created;
   }
 
+  /**
+   * rename a status column and/or move it to another position
+   * only owners and managers of the project can do this
+   */
+  @Router.patch("/project/statuses/:id")
+  async updateProjectStatus(session: SessionDoc, id: string, name?: string, position?: string) {
+    const user = Sessioning.getUser(session);
+    const statusId = new ObjectId(id);
+
+    const status = await Status.getStatus(statusId);
+    await assertProjectPermission(status.project, user, "manageBoard");
+
+    if (name !== undefined) {
+      await Status.rename(statusId, name);
+    }
+    const index = parseInteger(position, "position");
+    if (index !== undefined) {
+      await withTransaction(() => Status.move(statusId, index));
+    }
+    const updated = await Status.getStatus(statusId);
+    await Activity.record(status.project, user, "status.update", statusId, { name: status.name, position: status.position }, { name: updated.name, position: updated.position });
+    return { msg: "Status successfully updated!", status: updated };
+  }
+
+  /**
+   * delete an empty, non-terminal status column
+   * the last non-terminal column cannot be deleted, since new and reopened tasks go there
+   * only owners and managers of the project can do this
+   */
+  @Router.delete("/project/statuses/:id")
+  async deleteProjectStatus(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const statusId = new ObjectId(id);
+
+    const status = await Status.getStatus(statusId);
+    await assertProjectPermission(status.project, user, "manageBoard");
+
+    if ((await Task.countTasksInStatus(statusId)) > 0) {
+      throw new NotAllowedError(`Status ${status.name} still has tasks! Move them to another status first.`);
+    }
+    const deleted = await Status.delete(statusId);
+    await Activity.record(status.project, user, "status.delete", statusId, { name: status.name });
+    return deleted;
+  }
+
+  /**
+   * get the milestones of a project by target date (those without one last),
+   * each with its tasks in the order they were attached and how much of them is done
+   * only project members can do this
+   */
+  @Router.get("/project/milestones")
+  async getProjectMilestones(session: SessionDoc, project: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    const milestones = await Milestone.getMilestonesForProject(projectId);
+    return await Promise.all(
+      milestones.map(async (milestone) => {
+        const tasks = (await MilestoneTask.getItemsInGroup(milestone._id)).map((link) => link.item);
+        return { ...milestone, tasks, progress: await Task.getProgress(projectId, tasks) };
+      }),
+    );
+  }
+
+  /**
+   * add a milestone to a project; the target date is optional
+   * milestone names must be unique within the project
+   * only owners and managers of the project can do this
+   */
+  @Router.post("/project/milestones")
+  async createMilestone(session: SessionDoc, project: string, name: string, target?: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+
+    await assertProjectPermission(projectId, user, "manageBoard");
+
+    const created = await Milestone.create(projectId, name, parseDate(target, "target"));
+    await Activity.record(projectId, user, "milestone.create", created.milestone!._id, undefined, { name, target: created.milestone!.target });
+    return created;
+  }
+
+  /**
+   * rename a milestone and/or change its target date
+   * only owners and managers of the project can do this
+   */
+  @Router.patch("/project/milestones/:id")
+  async updateMilestone(session: SessionDoc, id: string, name?: string, target?: string) {
+    const user = Sessioning.getUser(session);
+    const milestoneId = new ObjectId(id);
+
+    const milestone = await Milestone.getMilestone(milestoneId);
+    await assertProjectPermission(milestone.project, user, "manageBoard");
+
+    const updated = await Milestone.update(milestoneId, name, parseDate(target, "target"));
+    await Activity.record(
+      milestone.project,
+      user,
+      "milestone.update",
+      milestoneId,
+      { name: milestone.name, target: milestone.target },
+      { name: updated.milestone!.name, target: updated.milestone!.target },
+    );
+    return updated;
+  }
+
+  /**
+   * remove the target date of a milestone
+   * only owners and managers of the project can do this
+   */
+  @Router.delete("/project/milestones/:id/target")
+  async clearMilestoneTarget(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const milestoneId = new ObjectId(id);
+
+    const milestone = await Milestone.getMilestone(milestoneId);
+    await assertProjectPermission(milestone.project, user, "manageBoard");
+
+    const cleared = await Milestone.clearTarget(milestoneId);
+    await Activity.record(milestone.project, user, "milestone.update", milestoneId, { target: milestone.target }, {});
+    return cleared;
+  }
+
+  /**
+   * delete a milestone; its tasks are detached from it but not deleted
+   * only owners and managers of the project can do this
+   */
+  @Router.delete("/project/milestones/:id")
+  async deleteMilestone(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const milestoneId = new ObjectId(id);
+
+    const milestone = await Milestone.getMilestone(milestoneId);
+    await assertProjectPermission(milestone.project, user, "manageBoard");
+
+    return await withTransaction(async () => {
+      await MilestoneTask.deleteAllItemsInGroup(milestoneId);
+      const deleted = await Milestone.delete(milestoneId);
+      await Activity.record(milestone.project, user, "milestone.delete", milestoneId, { name: milestone.name });
+      return deleted;
+    });
+  }
+
+  /**
+   * attach a task to a milestone of the same project, after the tasks already attached to it
+   * a task can belong to at most one milestone
+   * only members who can edit tasks can do this
+   */
+  @Router.post("/project/milestones/:id/tasks")
+  async attachMilestoneTask(session: SessionDoc, id: string, task: string) {
+    const user = Sessioning.getUser(session);
+    const milestoneId = new ObjectId(id);
+    const taskId = new ObjectId(task);
+
+    const milestone = await Milestone.getMilestone(milestoneId);
+    await assertProjectPermission(milestone.project, user, "editTasks");
+
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc || taskDoc.project.toString() !== milestone.project.toString()) {
+      throw new NotAllowedError(`Task ${taskId} does not belong to the project of milestone ${milestone.name}!`);
+    }
+    if ((await MilestoneTask.getGroupsForItem(taskId)).length > 0) {
+      throw new NotAllowedError(`Task ${taskId} already belongs to a milestone! Detach it first.`);
+    }
+    const attached = await MilestoneTask.addGroupItem(milestoneId, taskId);
+    await Activity.record(milestone.project, user, "milestone.attach", milestoneId, undefined, { task: taskId });
+    return attached;
+  }
+
+  /**
+   * detach a task from a milestone
+   * only members who can edit tasks can do this
+   */
+  @Router.delete("/project/milestones/:id/tasks")
+  async detachMilestoneTask(session: SessionDoc, id: string, task: string) {
+    const user = Sessioning.getUser(session);
+    const milestoneId = new ObjectId(id);
+    const taskId = new ObjectId(task);
+
+    const milestone = await Milestone.getMilestone(milestoneId);
+    await assertProjectPermission(milestone.project, user, "editTasks");
+
+    await MilestoneTask.assertItemInGroup(milestoneId, taskId);
+    const detached = await MilestoneTask.removeGroupItem(milestoneId, taskId);
+    await Activity.record(milestone.project, user, "milestone.detach", milestoneId, { task: taskId }, undefined);
+    return detached;
+  }
+
+  /**
+   * move a task to a status column, at the given position within it (at the end by default)
+   * moving into the terminal column completes the task, moving out of it reopens the task
+   * completing an occurrence of a recurring task this way also creates its next occurrence
+   * only members who can edit tasks can do this
+   */
+  @Router.patch("/project/task/status")
+  async moveTask(session: SessionDoc, task: string, status: string, position?: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+    const statusId = new ObjectId(status);
+
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertProjectPermission(taskDoc.project, user, "editTasks");
+
+    const target = await Status.assertStatusInProject(statusId, taskDoc.project);
+    if (target.terminal && !taskDoc.completion) {
+      await Task.assertTasksCompleted(await TaskDependency.getDependencies(taskId));
+    }
+    const index = parseInteger(position, "position") ?? (await Task.countTasksInStatus(statusId));
+    const moved = await withTransaction(() => Task.moveTask(taskId, statusId, index, target.terminal));
+    await Activity.record(taskDoc.project, user, "task.move", taskId, { status: taskDoc.status, completion: taskDoc.completion }, { status: statusId, position: index, completion: target.terminal });
+    if (target.terminal === taskDoc.completion) {
+      return moved;
+    }
+    // moving into or out of the terminal column completes or reopens the task, just like doing so directly
+    const next = await recordCompletionChange(taskDoc, target.terminal, user);
+    return next ? { ...moved, next } : moved;
+  }
+
+  /**
+   * make a task blocked by another task of the same project
+   * rejects dependencies that would create a cycle
+   * only members who can edit tasks can do this
+   */
+  @Router.post("/project/task/dependencies")
+  async addTaskDependency(session: SessionDoc, task: string, blockedBy: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+    const blockerId = new ObjectId(blockedBy);
+
+    const projectId = await assertTasksInSameProject(taskId, blockerId);
+    await assertProjectPermission(projectId, user, "editTasks");
+
+    const added = await TaskDependency.addDependency(taskId, blockerId);
+    await Activity.record(projectId, user, "dependency.add", taskId, undefined, { blockedBy: blockerId });
+    return added;
+  }
+
+  /**
+   * remove a dependency between two tasks
+   * only members who can edit tasks can do this
+   */
+  @Router.delete("/project/task/dependencies")
+  async removeTaskDependency(session: SessionDoc, task: string, blockedBy: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+    const blockerId = new ObjectId(blockedBy);
+
+    const projectId = await assertTasksInSameProject(taskId, blockerId);
+    await assertProjectPermission(projectId, user, "editTasks");
+
+    const removed = await TaskDependency.removeDependency(taskId, blockerId);
+    await Activity.record(projectId, user, "dependency.remove", taskId, { blockedBy: blockerId }, undefined);
+    return removed;
+  }
+
+  /**
+   * get the tasks that a task is blocked by and the tasks it blocks
+   * only project members can do this
+   */
+  @Router.get("/project/task/dependencies")
+  async getTaskDependencies(session: SessionDoc, task: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const projectId = (await Task.getTask(taskId))?.project;
+    if (!projectId) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    const [blockedBy, blocks] = await Promise.all([TaskDependency.getDependencies(taskId), TaskDependency.getDependents(taskId)]);
+    return { blockedBy: await Task.getTasks(blockedBy), blocks: await Task.getTasks(blocks) };
+  }
+
+  /**
+   * comment on a task
+   * only owners, managers and contributors can comment on the project's tasks
+   */
+  @Router.post("/project/task/comments")
+  async createTaskComment(session: SessionDoc, task: string, content: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const projectId = (await Task.getTask(taskId))?.project;
+    if (!projectId) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertProjectPermission(projectId, user, "comment");
+
+    const created = await TaskComment.create(user, taskId, content);
+    await Activity.record(projectId, user, "comment.create", created.comment!._id, undefined, { task: taskId, content });
+    return { msg: created.msg, comment: await Responses.comment(created.comment) };
+  }
+
+  /**
+   * get the comments on a task, oldest first
+   * only project members can see the comments on the project's tasks
+   */
+  @Router.get("/project/task/comments")
+  async getTaskComments(session: SessionDoc, task: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const projectId = (await Task.getTask(taskId))?.project;
+    if (!projectId) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    return Responses.comments(await TaskComment.getByTarget(taskId));
+  }
+
+  /**
+   * edit a comment on a task
+   * only the author of the comment can do this, as long as they can still comment in the project
+   */
+  @Router.patch("/project/task/comments/:id")
+  async updateTaskComment(session: SessionDoc, id: string, content: string) {
+    const user = Sessioning.getUser(session);
+    const commentId = new ObjectId(id);
+
+    const comment = await assertCanChangeComment(commentId, user);
+    const updated = await TaskComment.update(commentId, content);
+    await Activity.record(comment.project, user, "comment.update", commentId, { content: comment.content }, { content });
+    return updated;
+  }
+
+  /**
+   * delete a comment on a task
+   * only the author of the comment can do this, as long as they can still comment in the project
+   */
+  @Router.delete("/project/task/comments/:id")
+  async deleteTaskComment(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const commentId = new ObjectId(id);
+
+    const comment = await assertCanChangeComment(commentId, user);
+    const deleted = await TaskComment.delete(commentId);
+    await Activity.record(comment.project, user, "comment.delete", commentId, { task: comment.target, content: comment.content });
+    return deleted;
+  }
+
+  /**
+   * get the checklist of a task together with the progress derived from it
+   * only project members can do this
+   */
+  @Router.get("/project/task/checklist")
+  async getTaskChecklist(session: SessionDoc, task: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await ProjectMember.assertItemInGroup(taskDoc.project, user);
+
+    return { checklist: taskDoc.checklist ?? [], autoComplete: taskDoc.autoComplete ?? false, progress: Task.getChecklistProgress(taskDoc) };
+  }
+
+  /**
+   * add a subtask to the checklist of a task, at the end unless a position is given
+   * only members who can edit tasks can do this
+   */
+  @Router.post("/project/task/checklist")
+  async addChecklistItem(session: SessionDoc, task: string, description: string, position?: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const projectId = (await Task.getTask(taskId))?.project;
+    if (!projectId) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertProjectPermission(projectId, user, "editTasks");
+
+    const added = await Task.addChecklistItem(taskId, description, parseInteger(position, "position"));
+    await Activity.record(projectId, user, "checklist.add", taskId, undefined, { item: added.item._id, description });
+    return added;
+  }
+
+  /**
+   * move a subtask to another position in the checklist of a task
+   * only members who can edit tasks can do this
+   */
+  @Router.patch("/project/task/checklist/position")
+  async moveChecklistItem(session: SessionDoc, task: string, item: string, position: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const projectId = (await Task.getTask(taskId))?.project;
+    if (!projectId) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertProjectPermission(projectId, user, "editTasks");
+
+    const index = parseInteger(position, "position") ?? 0;
+    const moved = await Task.moveChecklistItem(taskId, new ObjectId(item), index);
+    await Activity.record(projectId, user, "checklist.move", taskId, undefined, { item: new ObjectId(item), position: index });
+    return moved;
+  }
+
+  /**
+   * check off a subtask
+   * completes the task if it auto-completes and this was its last open subtask, unless the task is blocked
+   * only members who can edit tasks can do this
+   */
+  @Router.patch("/project/task/checklist/check")
+  async checkChecklistItem(session: SessionDoc, task: string, item: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertProjectPermission(taskDoc.project, user, "editTasks");
+
+    const result = await Task.setChecklistItemStatus(taskId, new ObjectId(item), true);
+    await Activity.record(taskDoc.project, user, "checklist.check", taskId, undefined, { item: new ObjectId(item) });
+    // decide on the task as it is after the update, which includes concurrent changes to its checklist
+    if (result.allChecked && result.task.autoComplete && !result.task.completion) {
+      // blocked tasks stay open until their blockers are completed
+      if (await Task.areTasksCompleted(await TaskDependency.getDependencies(taskId))) {
+        await setTaskCompletion(result.task, true, user);
+      }
+    }
+    return { msg: result.msg, progress: Task.getChecklistProgress((await Task.getTask(taskId))!) };
+  }
+
+  /**
+   * uncheck a subtask
+   * reopens the task if it auto-completes and was completed
+   * only members who can edit tasks can do this
+   */
+  @Router.patch("/project/task/checklist/uncheck")
+  async uncheckChecklistItem(session: SessionDoc, task: string, item: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertProjectPermission(taskDoc.project, user, "editTasks");
+
+    const result = await Task.setChecklistItemStatus(taskId, new ObjectId(item), false);
+    await Activity.record(taskDoc.project, user, "checklist.uncheck", taskId, undefined, { item: new ObjectId(item) });
+    if (result.task.autoComplete && result.task.completion) {
+      await setTaskCompletion(result.task, false, user);
+    }
+    return { msg: result.msg, progress: Task.getChecklistProgress((await Task.getTask(taskId))!) };
+  }
+
+  /**
+   * remove a subtask from the checklist of a task
+   * only members who can edit tasks can do this
+   */
+  @Router.delete("/project/task/checklist")
+  async removeChecklistItem(session: SessionDoc, task: string, item: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const projectId = (await Task.getTask(taskId))?.project;
+    if (!projectId) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertProjectPermission(projectId, user, "editTasks");
+
+    const removed = await Task.removeChecklistItem(taskId, new ObjectId(item));
+    await Activity.record(projectId, user, "checklist.remove", taskId, { item: new ObjectId(item) }, undefined);
+    return removed;
+  }
+
+  /**
+   * set whether a task is completed automatically once all of its subtasks are checked
+   * only members who can edit tasks can do this
+   */
+  @Router.patch("/project/task/autocomplete")
+  async setTaskAutoComplete(session: SessionDoc, task: string, autoComplete: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const taskDoc = await Task.getTask(taskId);
+    if (!taskDoc) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await assertProjectPermission(taskDoc.project, user, "editTasks");
+
+    const updated = await Task.setAutoComplete(taskId, parseFlag(autoComplete));
+    await Activity.record(taskDoc.project, user, "task.autocomplete", taskId, { autoComplete: taskDoc.autoComplete ?? false }, { autoComplete: parseFlag(autoComplete) });
+    return updated;
+  }
+
+  /**
+   * get the activity history of a project, newest first
+   * pass the returned `next` cursor back as `cursor` to get the following page
+   * only project members can do this
+   */
+  @Router.get("/project/activity")
+  async getProjectActivity(session: SessionDoc, project: string, cursor?: string, limit?: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    const page = await Activity.getForProject(projectId, cursor, parseInteger(limit, "limit"));
+    return { activities: await Responses.activities(page.activities), next: page.next };
+  }
+
+  /**
+   * get task completion progress for a project
+   * returns completed/total task counts for the whole project and for each of its members,
+   * along with the percentage of work done where checked subtasks of open tasks count partially
+   * only project members are able to see the progress of a project
+   */
+  @Router.get("/project/progress")
+  async getProjectProgress(session: SessionDoc, project: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    const members = (await ProjectMember.getItemsInGroup(projectId)).map((member) => member.item);
+    const memberProgress = await Promise.all(
+      members.map(async (member) => {
+        // only count the member's assigned tasks that belong to this project
+        const assigned = (await TaskAssignee.getGroupsForItem(member)).map((link) => link.group);
+        return await Task.getProgress(projectId, assigned);
+      }),
+    );
+
+    return { project: await Task.getProgress(projectId), members: await Responses.memberProgress(members, memberProgress) };
+  }
+
+  /**
+   * get statistics of a project, computed in the database:
+   * tasks per status column and per assignee, how many tasks have no assignee,
+   * tasks created and completed per `period` ("day" or "week", the default) along with the completion rate up to then,
+   * and the average time in milliseconds from creating a task to completing it
+   * a completed task counts as completed when it was last updated
+   * only project members can see them
+   */
+  @Router.get("/project/stats")
+  async getProjectStats(session: SessionDoc, project: string, period?: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+    const unit = parseStatsPeriod(period);
+
+    await Status.createDefaults(projectId);
+    const tasks = await Task.getTaskIdsForProject(projectId);
+    const [statuses, byStatus, byAssignee, assigned, history, completionTime] = await Promise.all([
+      Status.getStatuses(projectId),
+      Task.countByStatus(projectId),
+      TaskAssignee.countGroupsPerItem(tasks),
+      TaskAssignee.countNonEmptyGroups(tasks),
+      Task.getCompletionHistory(projectId, unit),
+      Task.getAverageCompletionTime(projectId),
+    ]);
+    const assignees = await Authing.idsToUsernames(byAssignee.map((count) => count.item));
+
+    return {
+      tasks: tasks.length,
+      statuses: countTasksPerStatus(statuses, byStatus),
+      assignees: byAssignee.map((count, i) => ({ assignee: assignees[i], tasks: count.count })),
+      unassigned: tasks.length - assigned,
+      history,
+      completionTime,
+    };
+  }
+
+  /**
+   * export a project as a versioned JSON bundle: its status columns, members, tasks with their checklists and assignees,
+   * dependencies, recurring tasks, milestones and comments, with users given by username
+   * only project members can do this
+   */
+  @Router.get("/project/export")
+  async exportProject(session: SessionDoc, project: string) {
+    const user = Sessioning.getUser(session);
+    const projectId = new ObjectId(project);
+
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    return await buildProjectBundle(projectId);
+  }
+
+  /**
+   * import a bundle made by `GET /project/export` as a new project owned by the current user
+   * the project is called `name`, or keeps the name in the bundle if not given; name must be unique
+   * members, assignees and comment authors are matched to existing users by username and left out if there is none
+   * (the owner of the exported project joins as a manager)
+   * the whole bundle is checked before anything is created
+   */
+  @Router.post("/project/import")
+  async importProject(session: SessionDoc, bundle: unknown, name?: string) {
+    const user = Sessioning.getUser(session);
+    const parsed = parseProjectBundle(bundle);
+
+    const imported = await withTransaction(() => createProjectFromBundle(user, parsed, name || parsed.project.name));
+    return { msg: "Successfully imported project!", ...imported };
+  }
+
+  /**
+   * get assignees for a task
+   * only members of a project can do this
+   */
+  @Router.get("/project/task/assignees")
+  async getAssigneesForTask(session: SessionDoc, task: string) {
+    const user = Sessioning.getUser(session);
+    const taskId = new ObjectId(task);
+
+    const projectId = (await Task.getTask(taskId))?.project;
+    if (!projectId) {
+      throw new NotAllowedError("Task does not exist!");
+    }
+    await ProjectMember.assertItemInGroup(projectId, user);
+
+    // gets all task-assignee linkages for that task
+    return await TaskAssignee.getItemsInGroup(taskId);
+  }
+
+  @Router.get("/session")
+  async getSessionUser(session: SessionDoc) {
+    const user = Sessioning.getUser(session);
+    return { ...(await Authing.getUserById(user)), email: await Authing.getEmail(user) };
+  }
+
+  @Router.get("/users")
+  async getUsers() {
+    return await Authing.getUsers();
+  }
+
+  @Router.get("/users/:username")
+  @Router.validate(z.object({ username: z.string().min(1) }))
+  async getUser(username: string) {
+    return await Authing.getUserByUsername(username);
+  }
+
+  /**
+   * create a user; the optional `email` is where password resets are sent
+   */
+  @Router.post("/users")
+  async createUser(session: SessionDoc, username: string, password: string, email?: string) {
+    Sessioning.isLoggedOut(session);
+    return await Authing.create(username, password, email);
+  }
+
+  /**
+   * set the current user's email, or remove it if `email` is empty
+   * password resets are sent to this email, so changing it needs the current password
+   */
+  @Router.patch("/users/email")
+  async updateEmail(session: SessionDoc, currentPassword: string, email?: string) {
+    Sessioning.isNotToken(session);
+    const user = Sessioning.getUser(session);
+    return await Authing.updateEmail(user, currentPassword, email);
+  }
+
+  @Router.patch("/users/username")
+  async updateUsername(session: SessionDoc, username: string) {
+    Sessioning.isNotToken(session);
+    const user = Sessioning.getUser(session);
+    return await Authing.updateUsername(user, username);
+  }
+
+  /**
+   * change the current user's password, which also revokes all of their other sessions
+   */
+  @Router.patch("/users/password")
+  async updatePassword(session: SessionDoc, currentPassword: string, newPassword: string) {
+    Sessioning.isNotToken(session);
+    const user = Sessioning.getUser(session);
+    const updated = await Authing.updatePassword(user, currentPassword, newPassword);
+    const { revoked } = await Sessioning.revokeOthers(session);
+    return { ...updated, revokedSessions: revoked };
+  }
+
+  /**
+   * delete the current user along with their posts, friendships, friend requests, project memberships,
+   * task assignments, comments, invites, templates and API tokens
+   * projects the user owns are handed over to one of their managers, or archived if they have none
+   * (projects without any other member are deleted, since nobody could access them any more)
+   * project activity keeps the user's past actions, which then show up as a deleted user
+   * returns a summary of what was removed
+   */
+  @Router.delete("/users")
+  async deleteUser(session: SessionDoc) {
+    Sessioning.isNotToken(session);
+    const user = Sessioning.getUser(session);
+
+    const summary = await withTransaction(async () => {
+      // counted up front, since projects without other members are deleted together with the user's membership and assignments
+      const memberships = (await ProjectMember.getGroupsForItem(user)).length;
+      const assignments = (await TaskAssignee.getGroupsForItem(user)).length;
+      const projects = await handOverOwnedProjects(user);
+      const posts = await Posting.deleteByAuthor(user);
+      const friends = await Friending.deleteAllForUser(user);
+      await ProjectMember.deleteItemFromAllGroups(user);
+      await ProjectRole.deleteForUser(user);
+      await TaskAssignee.deleteItemFromAllGroups(user);
+      const comments = await TaskComment.deleteByAuthor(user);
+      const invites = await ProjectInvite.deleteForUser(user);
+      const templates = await ProjectTemplate.deleteForOwner(user);
+      const tokens = await ApiToken.deleteForUser(user);
+      await Sessioning.deleteForUser(user);
+      await PasswordReset.deleteForUser(user);
+      await Authing.delete(user);
+      return {
+        removed: {
+          posts: posts.deleted,
+          friendships: friends.friendships,
+          friendRequests: friends.requests,
+          projectMemberships: memberships,
+          taskAssignments: assignments,
+          comments: comments.deleted,
+          invites: invites.deleted,
+          templates: templates.deleted,
+          tokens: tokens.deleted,
+        },
+        projects,
+      };
+    });
+    await Sessioning.end(session);
+    return { msg: "User deleted!", ...summary };
+  }
+
+  /**
+   * log in with a username and password
+   * after too many failed attempts for the username, or from the same IP address, logging in is locked for a while
+   * and fails with a 429 error that says when to try again
+   */
   @Router.post("/login")
-  async logIn(session: SessionDoc, username: string, password: string) {
-    const u = await Authing.authenticate(username, password);
-    Sessioning.start(session, u._id);
+  async logIn(session: SessionDoc, username: string, password: string, ip?: string, userAgent?: string, sessionID?: string) {
+    if (!username || !password) {
+      throw new BadValuesError("Username and password must be non-empty!");
+    }
+    await UserLoginThrottle.assertNotLocked(username);
+    if (ip) {
+      await IpLoginThrottle.assertNotLocked(ip);
+    }
+
+    let u;
+    try {
+      u = await Authing.authenticate(username, password);
+    } catch (e) {
+      if (e instanceof NotAllowedError) {
+        await recordLoginFailure(username, ip);
+      }
+      throw e;
+    }
+    await UserLoginThrottle.reset(username);
+    await Sessioning.start(session, u._id, sessionID, userAgent);
     return { msg: "Logged in!" };
   }
 
   @Router.post("/logout")
   async logOut(session: SessionDoc) {
-    Sessioning.end(session);
+    Sessioning.isNotToken(session);
+    await Sessioning.end(session);
     return { msg: "Logged out!" };
   }
 
+  /**
+   * mail a single-use password reset token to the user's email
+   * the response says the same whether or not the user exists and has an email
+   * once too many requests were made for the username, or from the same IP address, within PASSWORD_RESET_MINUTES,
+   * further ones fail with a 429 error until that window is over
+   */
+  @Router.post("/password-reset")
+  async requestPasswordReset(username: string, ip?: string) {
+    if (!username) {
+      throw new BadValuesError("Username must be non-empty!");
+    }
+    // every request counts, whether or not a mail is sent
+    await UserResetLimit.recordRequest(username);
+    if (ip) {
+      await IpResetLimit.recordRequest(ip);
+    }
+    const user = (await Authing.usernamesToIds([username])).get(username);
+    const email = user && (await Authing.getEmail(user));
+    if (user && email) {
+      const { token, expires } = await PasswordReset.issue(user);
+      await Mailer.send({
+        to: email,
+        subject: "Reset your password",
+        text:
+          `Someone asked to reset the password of ${username}. If it was you, send this token with a new password ` +
+          `to /api/password-reset/confirm before ${expires.toISOString()}:\n\n${token}\n\nOtherwise you can ignore this mail.`,
+      });
+    }
+    return { msg: "If the user has an email, a password reset token has been sent to it." };
+  }
+
+  /**
+   * set a new password with a token from a password reset mail, which can only be used once
+   * this logs the user out everywhere and lifts any login lockout of their username
+   */
+  @Router.post("/password-reset/confirm")
+  async confirmPasswordReset(token: string, newPassword: string) {
+    if (!token || !newPassword) {
+      throw new BadValuesError("Token and new password must be non-empty!");
+    }
+    const user = await withTransaction(async () => {
+      const user = await PasswordReset.redeem(token);
+      await Authing.resetPassword(user, newPassword);
+      await Sessioning.deleteForUser(user);
+      return user;
+    });
+    await UserLoginThrottle.reset((await Authing.getUserById(user)).username);
+    return { msg: "Password reset! Log in with the new password." };
+  }
+
+  /**
+   * get the current user's active sessions, most recently seen first, with when they started (`dateCreated`),
+   * when they were last seen and their user agent; the session making the request is marked `current`
+   */
+  @Router.get("/sessions")
+  async getSessions(session: SessionDoc) {
+    Sessioning.isNotToken(session);
+    return await Sessioning.getSessions(session);
+  }
+
+  /**
+   * revoke all of the current user's sessions except the one making the request
+   */
+  @Router.delete("/sessions")
+  async revokeOtherSessions(session: SessionDoc) {
+    Sessioning.isNotToken(session);
+    return await Sessioning.revokeOthers(session);
+  }
+
+  /**
+   * revoke one of the current user's sessions, which is logged out on its next request
+   * revoking the session making the request logs it out right away
+   */
+  @Router.delete("/sessions/:id")
+  async revokeSession(session: SessionDoc, id: string) {
+    Sessioning.isNotToken(session);
+    return await Sessioning.revoke(session, new ObjectId(id));
+  }
+
+  /**
+   * create an API token that scripts can send as `Authorization: Bearer <token>` instead of logging in
+   * `scopes` is a comma-separated list of "read" (requests that change nothing) and "write" (all other requests), both by default
+   * the token expires after `expiryDays` (30 by default, at most 365) and is only shown in this response
+   * API tokens cannot manage the account or its tokens, so this needs a session cookie
+   */
+  @Router.post("/tokens")
+  async createApiToken(session: SessionDoc, name: string, scopes?: string, expiryDays?: string) {
+    Sessioning.isNotToken(session);
+    const user = Sessioning.getUser(session);
+    const scopeList = (scopes || "read,write").split(",").map((scope) => scope.trim());
+    return await ApiToken.create(user, name, scopeList, parseInteger(expiryDays, "expiryDays") ?? 30);
+  }
+
+  /**
+   * get the API tokens of the current user, newest first, without the tokens themselves
+   */
+  @Router.get("/tokens")
+  async getApiTokens(session: SessionDoc) {
+    Sessioning.isNotToken(session);
+    const user = Sessioning.getUser(session);
+    return await ApiToken.getTokensForUser(user);
+  }
+
+  /**
+   * revoke one of the current user's API tokens, which stops working right away
+   */
+  @Router.delete("/tokens/:id")
+  async revokeApiToken(session: SessionDoc, id: string) {
+    Sessioning.isNotToken(session);
+    const user = Sessioning.getUser(session);
+    const tokenId = new ObjectId(id);
+
+    await ApiToken.assertOwnerIsUser(tokenId, user);
+    return await ApiToken.revoke(tokenId);
+  }
+
   @Router.get("/posts")
   @Router.validate(z.object({ author: z.string().optional() }))
   async getPosts(author?: string) {
@@ -465,6 +1935,683 @@ class Routes {
   }
 }
 
+/**
+ * Create a project owned by `user`, starting with the default status columns.
+ * `details` are recorded in the project's activity along with its name.
+ */
+async function createOwnedProject(user: ObjectId, name: string, details?: Record<string, unknown>) {
+  const project = (await Project.create(user, name)).project!;
+  // add creator as a member for that project
+  await ProjectMember.addGroupItem(project._id, user);
+  await ProjectRole.assign(project._id, user, "owner");
+  await Status.createDefaults(project._id);
+  await Activity.record(project._id, user, "project.create", project._id, undefined, { name, ...details });
+  return project;
+}
+
+/**
+ * Delete a project along with its members, tasks and everything else that belongs to it.
+ * Call this inside a transaction.
+ */
+async function deleteProjectAndContents(project: ObjectId) {
+  await ProjectMember.deleteAllItemsInGroup(project);
+  await ProjectRole.deleteForScope(project);
+  await ProjectInvite.deleteForScope(project);
+
+  // delete all task-assignee linkages associated with tasks
+  // get tasks for project
+  const projectTasks = await Task.getAllTasksForProject(project);
+  if (projectTasks) {
+    // if there are tasks, then we iterate through task-assignee linakges for those tasks
+    for (let i = 0; i < projectTasks.length; i++) {
+      const task = projectTasks[i];
+      const taskId = task._id;
+      // remove all assignee linkages to that task (i.e. delete the task)
+      await deleteTaskLinks(taskId);
+    }
+  }
+
+  // delete all tasks and status columns associated with the project
+  await Task.deleteTasksForProject(project);
+  await Status.deleteForProject(project);
+  await TaskSeries.deleteForProject(project);
+  await Milestone.deleteForProject(project);
+  await Plant.deleteForGarden(project);
+  await Activity.deleteForProject(project);
+  return await Project.deleteProject(project);
+}
+
+/**
+ * Hand over the projects that `user` owns before their account is deleted: each goes to the manager who joined first.
+ * A project without a manager goes to the member who joined first and is archived, so that they decide whether
+ * to restore or delete it. Projects without any other member are deleted.
+ * @returns the ids of the projects that were transferred, archived and deleted
+ */
+async function handOverOwnedProjects(user: ObjectId) {
+  const summary = { transferred: [] as ObjectId[], archived: [] as ObjectId[], deleted: [] as ObjectId[] };
+  for (const { group: project } of await ProjectMember.getGroupsForItem(user)) {
+    if ((await getProjectRole(project, user)) !== "owner") {
+      continue;
+    }
+    const others = (await ProjectRole.getRoles(project)).filter((role) => role.user.toString() !== user.toString());
+    others.sort((a, b) => a.dateCreated.getTime() - b.dateCreated.getTime());
+    const manager = others.find((role) => role.role === "manager");
+    const heir = manager ?? others[0];
+    if (heir) {
+      await ProjectRole.assign(project, heir.user, "owner");
+      await Project.updateProjectCreator(project, heir.user);
+      await Activity.record(project, user, "project.owner", project, { owner: user }, { owner: heir.user });
+    }
+    if (manager) {
+      summary.transferred.push(project);
+    } else if (heir) {
+      if (!(await Project.getProject(project))?.archived) {
+        await Project.archive(project);
+        await Activity.record(project, user, "project.archive", project);
+      }
+      summary.archived.push(project);
+    } else {
+      await deleteProjectAndContents(project);
+      summary.deleted.push(project);
+    }
+  }
+  return summary;
+}
+
+/**
+ * Create the tasks of a template in a project, in order, with the template's dates counted from `start`.
+ */
+async function createTemplateTasks(project: ObjectId, tasks: TemplateTask[], start: Date) {
+  const status = (await Status.getInitial(project))?._id;
+  for (const task of tasks) {
+    const created = (await Task.create(task.description, project, ProjectTemplate.getDates(task, start), status)).task!;
+    for (const subtask of task.checklist) {
+      await Task.addChecklistItem(created._id, subtask);
+    }
+    if (task.autoComplete) {
+      await Task.setAutoComplete(created._id, true);
+    }
+  }
+}
+
+/**
+ * Count a failed login for a username and the IP address it came from.
+ * If either of them is locked out now, fail with the error that says when to try again.
+ */
+async function recordLoginFailure(username: string, ip?: string) {
+  const user = await UserLoginThrottle.recordFailure(username);
+  const address = ip ? await IpLoginThrottle.recordFailure(ip) : undefined;
+  const locks = [user.lockedUntil, address?.lockedUntil].filter((until) => until !== undefined);
+  if (locks.length > 0) {
+    throw new LockedOutError(new Date(Math.max(...locks.map((until) => until.getTime()))));
+  }
+}
+
+/**
+ * Bring the plant of a project up to date: it grows with the project's completed tasks,
+ * and wilts while tasks are overdue or nothing has happened in the project for a while.
+ */
+async function tendPlant(project: ProjectDoc) {
+  const [progress, overdue, latest] = await Promise.all([Task.getProgress(project._id), Task.countTasksForProject(project._id, { overdue: true }), Activity.getLatest(project._id)]);
+  return await Plant.tend(project._id, { completed: progress.completed, overdue, lastActive: latest?.dateCreated ?? project.dateCreated });
+}
+
+/**
+ * Add the up-to-date plant of each project to it, for the projects that `user` is a member of.
+ * Other projects are left without a plant, and theirs is not tended.
+ */
+async function withPlants(projects: ProjectDoc[], user: ObjectId) {
+  return await Promise.all(projects.map(async (project) => ({ ...project, plant: (await ProjectMember.isItemInGroup(project._id, user)) ? await tendPlant(project) : undefined })));
+}
+
+/**
+ * Put a project and everything in it into a bundle that `createProjectFromBundle` can recreate it from.
+ * Tasks and recurring series get keys that are only meaningful within the bundle.
+ */
+async function buildProjectBundle(project: ObjectId): Promise<ProjectBundle> {
+  const projectDoc = await Project.getProject(project);
+  if (!projectDoc) {
+    throw new NotFoundError(`Project ${project} does not exist!`);
+  }
+  await backfillProjectRoles(project);
+
+  const board = await getBoard(project);
+  const tasks = board.flatMap((column) => column.tasks.map((task) => ({ task, status: column.status.name })));
+  const taskKeys = new Map(tasks.map(({ task }, i) => [task._id.toString(), `task-${i + 1}`]));
+  const series = await TaskSeries.getSeriesForProject(project);
+  const seriesKeys = new Map(series.map((one, i) => [one._id.toString(), `series-${i + 1}`]));
+
+  const roles = await ProjectRole.getRoles(project);
+  const milestones = await Milestone.getMilestonesForProject(project);
+  const taskIds = tasks.map(({ task }) => task._id);
+  const [assignees, comments, links, milestoneTasks] = await Promise.all([
+    Promise.all(taskIds.map((task) => TaskAssignee.getItemsInGroup(task))),
+    Promise.all(taskIds.map((task) => TaskComment.getByTarget(task))),
+    TaskDependency.getDependenciesForItems(taskIds),
+    Promise.all(milestones.map((milestone) => MilestoneTask.getItemsInGroup(milestone._id))),
+  ]);
+
+  // look up every username at once
+  const users = [...roles.map((role) => role.user), ...assignees.flat().map((link) => link.item), ...comments.flat().map((comment) => comment.author)];
+  const names = await Authing.idsToUsernames(users);
+  const usernames = new Map(users.map((id, i) => [id.toString(), names[i]]));
+  const username = (id: ObjectId) => usernames.get(id.toString())!;
+  const taskKey = (id?: ObjectId) => (id ? taskKeys.get(id.toString()) : undefined);
+  const seriesKey = (id?: ObjectId) => (id ? seriesKeys.get(id.toString()) : undefined);
+
+  return {
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: new Date(),
+    project: { name: projectDoc.name },
+    statuses: board.map(({ status }) => ({ name: status.name, terminal: status.terminal })),
+    members: roles.map((role) => ({ username: username(role.user), role: role.role })),
+    series: series.map((one) => ({ key: seriesKey(one._id)!, description: one.description, rule: one.rule, active: one.active, latest: taskKey(one.latest) })),
+    tasks: tasks.map(({ task, status }, i) => ({
+      key: taskKey(task._id)!,
+      description: task.description,
+      completion: task.completion,
+      start: task.start,
+      due: task.due,
+      status,
+      checklist: (task.checklist ?? []).map((item) => ({ description: item.description, completion: item.completion })),
+      autoComplete: task.autoComplete ?? false,
+      assignees: assignees[i].map((link) => username(link.item)),
+      series: seriesKey(task.series),
+    })),
+    // links to tasks that have since moved to another project are left out
+    dependencies: links.flatMap((link) => {
+      const [task, blockedBy] = [taskKey(link.dependent), taskKey(link.dependency)];
+      return task && blockedBy ? [{ task, blockedBy }] : [];
+    }),
+    comments: comments.flatMap((onTask, i) => onTask.map((comment) => ({ task: taskKey(taskIds[i])!, author: username(comment.author), content: comment.content }))),
+    milestones: milestones.map((milestone, i) => ({
+      name: milestone.name,
+      target: milestone.target,
+      tasks: milestoneTasks[i].flatMap((link) => taskKey(link.item) ?? []),
+    })),
+  };
+}
+
+/**
+ * Create a project owned by `user` from a bundle made by `buildProjectBundle`. Call this inside a transaction.
+ * Usernames are matched to existing users; members, assignees and comments of users without a match are left out.
+ * @returns the project, the usernames without a match and how many comments were left out
+ */
+async function createProjectFromBundle(user: ObjectId, bundle: ProjectBundle, name: string) {
+  const project = await createOwnedProject(user, name, { importedFrom: bundle.project.name });
+  const statuses = new Map((await Status.replaceAll(project._id, bundle.statuses)).statuses.map((status) => [status.name, status._id]));
+
+  const usernames = new Set([...bundle.members.map((member) => member.username), ...bundle.tasks.flatMap((task) => task.assignees), ...bundle.comments.map((comment) => comment.author)]);
+  const users = await Authing.usernamesToIds([...usernames]);
+
+  const members = new Set([user.toString()]);
+  for (const member of bundle.members) {
+    const id = users.get(member.username);
+    if (!id || members.has(id.toString())) {
+      continue;
+    }
+    await ProjectMember.addGroupItem(project._id, id);
+    await ProjectRole.assign(project._id, id, member.role === "owner" ? "manager" : member.role);
+    members.add(id.toString());
+  }
+
+  const series = new Map<string, ObjectId>();
+  for (const one of bundle.series) {
+    const created = (await TaskSeries.create(project._id, one.description, one.rule)).series!;
+    if (!one.active) {
+      await TaskSeries.stop(created._id);
+    }
+    series.set(one.key, created._id);
+  }
+
+  const tasks = new Map<string, ObjectId>();
+  for (const task of bundle.tasks) {
+    const dates = { start: task.start, due: task.due };
+    const created = (await Task.create(task.description, project._id, dates, statuses.get(task.status), task.series ? series.get(task.series) : undefined)).task!;
+    for (const subtask of task.checklist) {
+      const { item } = await Task.addChecklistItem(created._id, subtask.description);
+      if (subtask.completion) {
+        await Task.setChecklistItemStatus(created._id, item._id, true);
+      }
+    }
+    if (task.autoComplete) {
+      await Task.setAutoComplete(created._id, true);
+    }
+    if (task.completion) {
+      await Task.setCompletionStatus(created._id, true);
+    }
+    // only members of the new project can be assigned
+    for (const assignee of task.assignees) {
+      const id = users.get(assignee);
+      if (id && members.has(id.toString())) {
+        await TaskAssignee.addGroupItem(created._id, id);
+      }
+    }
+    tasks.set(task.key, created._id);
+  }
+
+  for (const one of bundle.series) {
+    if (one.latest) {
+      await TaskSeries.setLatest(series.get(one.key)!, tasks.get(one.latest)!);
+    }
+  }
+  for (const dependency of bundle.dependencies) {
+    await TaskDependency.addDependency(tasks.get(dependency.task)!, tasks.get(dependency.blockedBy)!);
+  }
+  for (const milestone of bundle.milestones) {
+    const created = (await Milestone.create(project._id, milestone.name, milestone.target)).milestone!;
+    for (const task of milestone.tasks) {
+      await MilestoneTask.addGroupItem(created._id, tasks.get(task)!);
+    }
+  }
+  let skippedComments = 0;
+  for (const comment of bundle.comments) {
+    const author = users.get(comment.author);
+    if (author) {
+      await TaskComment.create(author, tasks.get(comment.task)!, comment.content);
+    } else {
+      skippedComments++;
+    }
+  }
+
+  const unmatchedUsers = [...usernames].filter((username) => !users.has(username)).sort();
+  return { project, unmatchedUsers, skippedComments };
+}
+
+/**
+ * Get the status columns of a project in order, each with its tasks in order.
+ */
+async function getBoard(project: ObjectId) {
+  await Status.createDefaults(project);
+  const [statuses, tasks] = await Promise.all([Status.getStatuses(project), Task.getAllTasksForProject(project)]);
+  const initial = statuses.find((status) => !status.terminal);
+  const terminal = statuses.find((status) => status.terminal);
+  // tasks created before status columns existed are shown according to their completion
+  const columnOf = (task: TaskDoc) => (task.status ?? (task.completion ? terminal : initial)?._id)?.toString();
+  const byPosition = (a: TaskDoc, b: TaskDoc) => (a.position ?? Infinity) - (b.position ?? Infinity);
+  return statuses.map((status) => ({ status, tasks: tasks.filter((task) => columnOf(task) === status._id.toString()).sort(byPosition) }));
+}
+
+/**
+ * Add up task counts per status column, placing tasks created before status columns existed
+ * according to their completion, like `getBoard` does.
+ */
+function countTasksPerStatus(statuses: StatusDoc[], counts: StatusCount[]) {
+  const initial = statuses.find((status) => !status.terminal);
+  const terminal = statuses.find((status) => status.terminal);
+  const columnOf = (count: StatusCount) => (count.status ?? (count.completion ? terminal : initial)?._id)?.toString();
+  return statuses.map((status) => ({
+    status: status._id,
+    name: status.name,
+    tasks: counts.filter((count) => columnOf(count) === status._id.toString()).reduce((sum, count) => sum + count.count, 0),
+  }));
+}
+
+/**
+ * Give the members of a project that predates roles their roles: the creator becomes the owner
+ * and everyone else a contributor. Projects that already have roles are left untouched.
+ */
+async function backfillProjectRoles(project: ObjectId) {
+  if ((await ProjectRole.countRoles(project)) > 0) {
+    return;
+  }
+  const projectDoc = await Project.getProject(project);
+  if (!projectDoc) {
+    throw new NotFoundError(`Project ${project} does not exist!`);
+  }
+  // one at a time, since this may run inside a transaction
+  for (const member of await ProjectMember.getItemsInGroup(project)) {
+    await ProjectRole.assign(project, member.item, member.item.toString() === projectDoc.creator.toString() ? "owner" : "contributor");
+  }
+}
+
+/**
+ * Get the role of `user` in a project, or null if they are not a member.
+ */
+async function getProjectRole(project: ObjectId, user: ObjectId) {
+  await backfillProjectRoles(project);
+  return await ProjectRole.getRole(project, user);
+}
+
+/**
+ * Assert that the role of `user` in a project grants `permission` and that the project is not archived,
+ * since archived projects are read-only.
+ */
+async function assertProjectPermission(project: ObjectId, user: ObjectId, permission: Permission) {
+  const role = await assertProjectRole(project, user, permission);
+  await Project.assertNotArchived(project);
+  return role;
+}
+
+/**
+ * Assert that `user` may complete or reopen `task`: assignees of a task may, whatever their role,
+ * and so may everyone whose role lets them edit tasks.
+ */
+async function assertCanCompleteTask(task: TaskDoc, user: ObjectId) {
+  if ((await TaskAssignee.isItemInGroup(task._id, user)) && (await ProjectMember.isItemInGroup(task.project, user))) {
+    await Project.assertNotArchived(task.project);
+    return;
+  }
+  await assertProjectPermission(task.project, user, "editTasks");
+}
+
+/**
+ * Assert that the role of `user` in a project grants `permission`, whether or not the project is archived.
+ */
+async function assertProjectRole(project: ObjectId, user: ObjectId, permission: Permission) {
+  await backfillProjectRoles(project);
+  return await ProjectRole.assertAllowed(project, user, permission);
+}
+
+/**
+ * Assert that `user` may give members of a project the role `role`.
+ * Only owners can grant the manager role, and ownership can only be transferred.
+ */
+async function assertCanGrantRole(project: ObjectId, user: ObjectId, role: string) {
+  const granted = ProjectRole.assertValidRole(role);
+  if (granted === "owner") {
+    throw new NotAllowedError("Ownership can only be transferred by the current owner!");
+  }
+  await assertProjectPermission(project, user, granted === "manager" ? "manageManagers" : "manageMembers");
+  return granted;
+}
+
+/**
+ * Assert that `user` may change the role of, or remove, a member whose role is `role`.
+ */
+async function assertCanChangeMember(project: ObjectId, user: ObjectId, role: Role | null) {
+  if (role === "owner") {
+    throw new NotAllowedError("The owner of a project cannot be removed or given another role! Transfer ownership first.");
+  }
+  await assertProjectPermission(project, user, role === "manager" ? "manageManagers" : "manageMembers");
+}
+
+/**
+ * Remove everything that refers to a task: its assignees, dependencies and comments.
+ * Call this before deleting the task itself.
+ */
+async function deleteTaskLinks(task: ObjectId) {
+  await TaskAssignee.deleteAllItemsInGroup(task);
+  await MilestoneTask.deleteItemFromAllGroups(task);
+  await TaskDependency.deleteAllForItem(task);
+  await TaskComment.deleteByTarget(task);
+}
+
+const BULK_OPERATIONS = ["complete", "reopen", "assign", "unassign", "delete", "move"] as const;
+type BulkOperation = (typeof BULK_OPERATIONS)[number];
+
+// the permission each bulk operation needs in the project of each task
+const BULK_PERMISSIONS: Record<BulkOperation, Permission> = {
+  complete: "editTasks",
+  reopen: "editTasks",
+  assign: "editTasks",
+  unassign: "editTasks",
+  delete: "deleteTasks",
+  move: "deleteTasks",
+};
+
+/**
+ * Apply a bulk operation to a single task on behalf of `actor`, assuming that permissions have already been checked.
+ */
+async function applyBulkOperation(operation: BulkOperation, task: TaskDoc, actor: ObjectId, assignee?: ObjectId, project?: ObjectId) {
+  switch (operation) {
+    case "complete":
+      await Task.assertTasksCompleted(await TaskDependency.getDependencies(task._id));
+      return await setTaskCompletion(task, true, actor);
+    case "reopen":
+      return await setTaskCompletion(task, false, actor);
+    case "assign": {
+      if (await TaskAssignee.isItemInGroup(task._id, assignee!)) {
+        return { msg: "Task was already assigned to this user." };
+      }
+      const added = await TaskAssignee.addGroupItem(task._id, assignee!);
+      await Activity.record(task.project, actor, "task.assign", task._id, undefined, { assignee });
+      return added;
+    }
+    case "unassign": {
+      const before = (await TaskAssignee.getItemsInGroup(task._id)).map((link) => link.item);
+      const removed = assignee ? await TaskAssignee.removeGroupItem(task._id, assignee) : await TaskAssignee.deleteAllItemsInGroup(task._id);
+      const after = assignee ? before.filter((item) => item.toString() !== assignee.toString()) : [];
+      await Activity.record(task.project, actor, "task.unassign", task._id, { assignees: before }, { assignees: after });
+      return removed;
+    }
+    case "delete":
+      return await withTransaction(async () => {
+        await deleteTaskLinks(task._id);
+        const deleted = await Task.delete(task._id);
+        await Activity.record(task.project, actor, "task.delete", task._id, { description: task.description });
+        return deleted;
+      });
+    case "move": {
+      const moved = await moveTaskToProject(task, project!);
+      // record the move in both projects so that neither history loses track of the task
+      await Activity.record(task.project, actor, "task.transfer", task._id, { project: task.project }, { project });
+      await Activity.record(project!, actor, "task.transfer", task._id, { project: task.project }, { project });
+      return moved;
+    }
+  }
+}
+
+/**
+ * Move a task to another project, dropping whatever does not carry over:
+ * its dependencies, its recurring series, and assignees who are not members of the new project.
+ * The task goes to the end of the matching status column of the new project.
+ */
+async function moveTaskToProject(task: TaskDoc, project: ObjectId) {
+  if (task.project.toString() === project.toString()) {
+    return { msg: "Task is already in this project." };
+  }
+  await TaskDependency.deleteAllForItem(task._id);
+  // milestones belong to the old project
+  await MilestoneTask.deleteItemFromAllGroups(task._id);
+  const assignees = await TaskAssignee.getItemsInGroup(task._id);
+  for (const { item } of assignees) {
+    if (!(await ProjectMember.isItemInGroup(project, item))) {
+      await TaskAssignee.removeGroupItem(task._id, item);
+    }
+  }
+  await Status.createDefaults(project);
+  const status = task.completion ? await Status.getTerminal(project) : await Status.getInitial(project);
+  return await Task.moveToProject(task._id, project, status?._id);
+}
+
+/**
+ * Complete or reopen a task, keeping its status column consistent with its completion:
+ * completed tasks move to the project's terminal status and reopened tasks to its first status.
+ * Completing the latest occurrence of a recurring task also creates its next occurrence.
+ */
+async function setTaskCompletion(task: TaskDoc, completion: boolean, actor: ObjectId) {
+  if (task.completion === completion && task.status) {
+    return await Task.setCompletionStatus(task._id, completion);
+  }
+  await Status.createDefaults(task.project);
+  const status = completion ? await Status.getTerminal(task.project) : await Status.getInitial(task.project);
+  const result = await Task.setCompletionStatus(task._id, completion, status?._id);
+  const next = await recordCompletionChange(task, completion, actor);
+  return completion && task.series ? { ...result, next } : result;
+}
+
+/**
+ * Record that `task` was completed or reopened, and create the next occurrence when a recurring task is completed.
+ * @returns the new occurrence, if one was created
+ */
+async function recordCompletionChange(task: TaskDoc, completion: boolean, actor: ObjectId) {
+  await Activity.record(task.project, actor, completion ? "task.complete" : "task.reopen", task._id, { completion: task.completion }, { completion });
+  return completion && task.series ? await createNextOccurrence(task, actor) : undefined;
+}
+
+/**
+ * Create the occurrence of a recurring task that follows `task`, copying its assignees.
+ * The start date keeps the same distance to the due date as in `task`.
+ * @returns the new occurrence, or `undefined` if the series was stopped or `task` is not its latest occurrence
+ */
+async function createNextOccurrence(task: TaskDoc, actor: ObjectId) {
+  const series = await TaskSeries.getSeries(task.series!);
+  if (!TaskSeries.shouldContinue(series, task._id)) {
+    return undefined;
+  }
+  const due = TaskSeries.nextOccurrence(series.rule, task.due ?? new Date());
+  const start = task.start && task.due ? new Date(due.getTime() - (task.due.getTime() - task.start.getTime())) : undefined;
+  const next = (await Task.create(series.description, task.project, { start, due }, (await Status.getInitial(task.project))?._id, series._id)).task!;
+  await TaskSeries.setLatest(series._id, next._id);
+
+  const assignees = await TaskAssignee.getItemsInGroup(task._id);
+  await Promise.all(assignees.map((assignee) => TaskAssignee.addGroupItem(next._id, assignee.item)));
+  await Activity.record(task.project, actor, "task.create", next._id, undefined, { description: next.description, start, due, series: series._id });
+  return next;
+}
+
+/**
+ * Assert that `user` wrote the comment and can still comment in the project of the commented task.
+ * @returns the comment along with the project of the commented task
+ */
+async function assertCanChangeComment(comment: ObjectId, user: ObjectId) {
+  await TaskComment.assertAuthorIsUser(comment, user);
+  const commentDoc = await TaskComment.getComment(comment);
+  const projectId = (await Task.getTask(commentDoc.target))?.project;
+  if (!projectId) {
+    throw new NotAllowedError("Task does not exist!");
+  }
+  await assertProjectPermission(projectId, user, "comment");
+  return { ...commentDoc, project: projectId };
+}
+
+/**
+ * Assert that both tasks exist and belong to the same project.
+ * @returns the id of that project
+ */
+async function assertTasksInSameProject(task1: ObjectId, task2: ObjectId) {
+  const [first, second] = await Promise.all([Task.getTask(task1), Task.getTask(task2)]);
+  if (!first || !second) {
+    throw new NotAllowedError("Task does not exist!");
+  }
+  if (first.project.toString() !== second.project.toString()) {
+    throw new NotAllowedError("Tasks must belong to the same project!");
+  }
+  return first.project;
+}
+
+/**
+ * Get the dependency links between `tasks`, the tasks in topological order,
+ * and the ids of the open tasks that are not blocked by any open task.
+ */
+async function getDependencyGraph(tasks: TaskDoc[]) {
+  const ids = tasks.map((task) => task._id);
+  const links = await TaskDependency.getDependenciesForItems(ids);
+
+  // blockers may not be among `tasks` if those were filtered, so look their completion up
+  const completed = new Set((await Task.getTasks(links.map((link) => link.dependency))).filter((task) => task.completion).map((task) => task._id.toString()));
+  const blocked = new Set(links.filter((link) => !completed.has(link.dependency.toString())).map((link) => link.dependent.toString()));
+
+  const known = new Set(ids.map((id) => id.toString()));
+  return {
+    dependencies: links.filter((link) => known.has(link.dependency.toString())).map((link) => ({ task: link.dependent, blockedBy: link.dependency })),
+    order: TaskDependency.sortTopologically(ids, links),
+    actionable: tasks.filter((task) => !task.completion && !blocked.has(task._id.toString())).map((task) => task._id),
+  };
+}
+
+/**
+ * Parse an optional boolean flag given by the client, which is `true` only if it is "true".
+ */
+function parseFlag(value?: string | boolean) {
+  return value?.toString() === "true";
+}
+
+/**
+ * Parse an optional integer given by the client.
+ * @throws BadValuesError if `value` is not an integer
+ */
+function parseInteger(value: string | undefined, name: string) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    throw new BadValuesError(`${name} must be an integer, got ${value}!`);
+  }
+  return number;
+}
+
+/**
+ * Parse an optional date given by the client.
+ * @throws BadValuesError if `value` is not a valid date
+ */
+function parseDate(value: string | undefined, name: string) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new BadValuesError(`${value} is not a valid ${name} date!`);
+  }
+  return date;
+}
+
+/**
+ * Build a due date filter from client parameters.
+ * `due` is either "overdue" or "week" (due during the current Monday-to-Sunday week);
+ * `from` and `to` additionally restrict tasks to those due between the two dates.
+ */
+function parseDueFilter(due?: string, from?: string, to?: string): DueFilter {
+  const filter: DueFilter = { from: parseDate(from, "from"), to: parseDate(to, "to") };
+  if (due === "overdue") {
+    filter.overdue = true;
+  } else if (due === "week") {
+    const weekStart = new Date();
+    weekStart.setHours(0, 0, 0, 0);
+    // getDay() is 0 for Sunday, so shift it to be the last day of the week
+    weekStart.setDate(weekStart.getDate() - ((weekStart.getDay() + 6) % 7));
+    const weekEnd = new Date(weekStart);
+    weekEnd.setDate(weekStart.getDate() + 7);
+    weekEnd.setMilliseconds(-1);
+    filter.from = filter.from && filter.from > weekStart ? filter.from : weekStart;
+    filter.to = filter.to && filter.to < weekEnd ? filter.to : weekEnd;
+  } else if (due !== undefined) {
+    throw new BadValuesError(`Unknown due date filter ${due}! Expected "overdue" or "week".`);
+  }
+  return filter;
+}
+
+/**
+ * Parse the period that project statistics are grouped by, which is a week unless given.
+ */
+function parseStatsPeriod(period?: string): StatsPeriod {
+  if (period === undefined) {
+    return "week";
+  }
+  if (!STATS_PERIODS.includes(period as StatsPeriod)) {
+    throw new BadValuesError(`Unknown period ${period}! Expected "day" or "week".`);
+  }
+  return period as StatsPeriod;
+}
+
+// requests with these methods change nothing, so "read" API tokens can make them
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Express middleware that authenticates requests with an `Authorization: Bearer <token>` header by their API token.
+ * Such a request gets a session of its own for the token's user, so routes see it like a logged-in request.
+ * It has to run before the session middleware, which then leaves the request alone.
+ */
+export const apiTokenSessions = Router.middleware(async (req) => {
+  const [scheme, token] = req.headers.authorization?.split(" ") ?? [];
+  if (scheme !== "Bearer") {
+    return;
+  }
+  const record = await ApiToken.authenticate(token ?? "");
+  ApiToken.assertHasScope(record, READ_METHODS.includes(req.method) ? "read" : "write");
+  req.session = Sessioning.startForToken(record.user, record._id) as Request["session"];
+});
+
+/**
+ * Express middleware that logs out requests whose session has been revoked and notes when sessions were last seen.
+ * It has to run after the session middleware.
+ */
+export const sessionRecords = Router.middleware(async (req) => {
+  await Sessioning.touch(req.session, req.sessionID, req.get("user-agent"));
+});
+
 /** The web app. */
 export const app = new Routes();
 
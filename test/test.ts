@@ -1,17 +1,29 @@
 import { strict as assert } from "assert";
 import dotenv from "dotenv";
+import type { Request, Response } from "express";
+import { readFile, rm } from "fs/promises";
+import { ObjectId } from "mongodb";
+import { tmpdir } from "os";
+import { join } from "path";
 import process from "process";
 
 // Make sure we are in test mode!
 process.env.TEST = "true";
+// Let archived projects be deleted right away
+process.env.PROJECT_DELETION_GRACE_DAYS = "0";
+// Write mail to a file that tests can read
+const MAIL_FILE = join(tmpdir(), "test-mail.jsonl");
+process.env.MAIL_FILE = MAIL_FILE;
 
 // Also need to load the .env file
 dotenv.config();
 
+import ProjectConcept from "../server/concepts/projects";
 import type { SessionDoc } from "../server/concepts/sessioning";
 
 // Test mode must be set before importing the routes
-import { app } from "../server/routes";
+import { Authing, Milestone, Plant, ProjectMember, Sessioning, Status, Task, TaskComment, TaskSeries, UserLoginThrottle } from "../server/app";
+import { apiTokenSessions, app } from "../server/routes";
 
 import db, { client } from "../server/db";
 if (db.databaseName !== "test-db") {
@@ -30,7 +42,7 @@ beforeEach(async () => {
 
   // Add some default users we can use
   await app.createUser(getEmptySession(), "alice", "alice123");
-  await app.createUser(getEmptySession(), "bob", "bob123");
+  await app.createUser(getEmptySession(), "bob", "bobby123");
 });
 
 // After all tests are done...
@@ -43,19 +55,65 @@ describe("Create a user and log in", () => {
   it("should create a user and log in", async () => {
     const session = getEmptySession();
 
-    const created = await app.createUser(session, "barish", "1234");
+    const created = await app.createUser(session, "barish", "secret1234");
     assert(created.user);
-    await assert.rejects(app.logIn(session, "barish", "123"));
-    await app.logIn(session, "barish", "1234");
-    await assert.rejects(app.logIn(session, "barish", "1234"), "Should not be able to login while already logged-in");
+    await assert.rejects(app.logIn(session, "barish", "secret123"));
+    await app.logIn(session, "barish", "secret1234");
+    await assert.rejects(app.logIn(session, "barish", "secret1234"), "Should not be able to login while already logged-in");
   });
 
   it("duplicate username should fail", async () => {
     const session = getEmptySession();
 
-    const created = await app.createUser(session, "barish", "1234");
+    const created = await app.createUser(session, "barish", "secret1234");
     assert(created.user);
-    await assert.rejects(app.createUser(session, "barish", "1234"));
+    await assert.rejects(app.createUser(session, "barish", "secret1234"));
+  });
+
+  it("passwords are stored hashed, and plaintext ones are hashed on login", async () => {
+    await app.createUser(getEmptySession(), "barish", "secret1234");
+    const stored = (await Authing.users.readOne({ username: "barish" }))!.password;
+    assert(stored.startsWith("scrypt$") && !stored.includes("secret"));
+
+    await Authing.users.createOne({ username: "legacy", password: "abcd" });
+    await assert.rejects(app.logIn(getEmptySession(), "legacy", "abc"));
+    await app.logIn(getEmptySession(), "legacy", "abcd");
+    assert((await Authing.users.readOne({ username: "legacy" }))!.password.startsWith("scrypt$"));
+    await app.logIn(getEmptySession(), "legacy", "abcd");
+  });
+
+  it("new passwords must follow the password policy", async () => {
+    await assert.rejects(app.createUser(getEmptySession(), "carol", "c4rol"), "Password too short");
+    await assert.rejects(app.createUser(getEmptySession(), "carol", "carolcarol"), "Password with one kind of character");
+    await assert.rejects(app.createUser(getEmptySession(), "carol123", "Carol123"), "Password same as username");
+    await app.createUser(getEmptySession(), "carol", "carol123");
+
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await assert.rejects(app.updatePassword(alice, "alice123", "alice"));
+    await app.updatePassword(alice, "alice123", "alice-in-wonderland");
+  });
+
+  it("too many failed logins lock the account for a while", async () => {
+    for (let i = 1; i < 5; i++) {
+      await assert.rejects(app.logIn(getEmptySession(), "alice", "wrong1234", "10.0.0.1"), { HTTP_CODE: 403 });
+    }
+    await assert.rejects(app.logIn(getEmptySession(), "alice", "wrong1234", "10.0.0.1"), { HTTP_CODE: 429 });
+    await assert.rejects(app.logIn(getEmptySession(), "alice", "alice123", "10.0.0.2"), { HTTP_CODE: 429 }, "Locked even with the right password");
+
+    // other users can still log in, also from the same address
+    await app.logIn(getEmptySession(), "bob", "bobby123", "10.0.0.1");
+  });
+
+  it("failed logins made at the same time are all counted", async () => {
+    await Promise.all(Array.from({ length: 8 }, () => UserLoginThrottle.recordFailure("carol")));
+    assert.equal((await UserLoginThrottle.failures.readOne({ key: "carol" }))!.failures, 8);
+
+    const results = await Promise.allSettled(Array.from({ length: 8 }, () => app.logIn(getEmptySession(), "alice", "wrong1234")));
+    for (const result of results) {
+      assert(result.status === "rejected" && [403, 429].includes((result.reason as { HTTP_CODE: number }).HTTP_CODE));
+    }
+    await assert.rejects(app.logIn(getEmptySession(), "alice", "alice123"), { HTTP_CODE: 429 });
   });
 
   it("get invalid username should fail", async () => {
@@ -64,6 +122,1168 @@ describe("Create a user and log in", () => {
   });
 });
 
+describe("API tokens", () => {
+  // run a request with a bearer token through the token middleware
+  async function withToken(method: string, token: string) {
+    const req = { method, headers: { authorization: `Bearer ${token}` } } as Request;
+    let status: number | undefined;
+    const res = {
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json: () => res,
+    } as unknown as Response;
+    await apiTokenSessions(req, res, () => undefined);
+    return { session: req.session as SessionDoc | undefined, status };
+  }
+
+  it("act as their user within their scopes until revoked", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const { token, record } = await app.createApiToken(alice, "backup script", "read");
+
+    const read = await withToken("GET", token);
+    assert.equal((await app.getSessionUser(read.session!)).username, "alice");
+    assert.equal((await withToken("POST", token)).status, 403, "Read tokens cannot change anything");
+    await assert.rejects(app.createApiToken(read.session!, "another"), "Tokens cannot create tokens");
+    assert.equal((await withToken("GET", token + "x")).status, 401);
+
+    const tokens = await app.getApiTokens(alice);
+    assert.deepEqual(
+      tokens.map((one) => [one.name, one.scopes, "hash" in one]),
+      [["backup script", ["read"], false]],
+    );
+
+    await app.revokeApiToken(alice, record._id.toString());
+    assert.equal((await withToken("GET", token)).status, 401);
+  });
+});
+
+describe("Password reset", () => {
+  // the text of the last mail sent to `to`
+  async function lastMailTo(to: string) {
+    const mails = (await readFile(MAIL_FILE, "utf8").catch(() => ""))
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as { to: string; text: string });
+    return mails.filter((mail) => mail.to === to).pop()?.text;
+  }
+
+  it("mails a single-use token that sets a new password and logs out everywhere", async () => {
+    await rm(MAIL_FILE, { force: true });
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await assert.rejects(app.updateEmail(alice, "wrong1234", "mallory@example.com"), "Changing the email needs the current password");
+    await app.updateEmail(alice, "alice123", "alice@example.com");
+    assert.equal((await app.getSessionUser(alice)).email, "alice@example.com");
+    assert(!("email" in (await app.getUser("alice"))), "Others cannot see the email");
+
+    await app.requestPasswordReset("bob");
+    await app.requestPasswordReset("nobody");
+    assert.equal(await lastMailTo("alice@example.com"), undefined, "Users without an email get no mail");
+
+    await app.requestPasswordReset("alice");
+    const token = (await lastMailTo("alice@example.com"))!.split("\n\n")[1];
+    await assert.rejects(app.confirmPasswordReset(token, "alice"), "The new password must follow the policy");
+    await app.confirmPasswordReset(token, "wonderland-1");
+    await assert.rejects(app.confirmPasswordReset(token, "wonderland-2"), "Tokens can only be used once");
+
+    await Sessioning.touch(alice);
+    await assert.rejects(app.getSessionUser(alice), "Resetting the password logs out everywhere");
+    await app.requestPasswordReset("alice");
+    await app.requestPasswordReset("alice");
+    await assert.rejects(app.requestPasswordReset("alice"), { HTTP_CODE: 429, message: /Too many requests/ }, "Too many requests for the same username");
+    await assert.rejects(app.logIn(getEmptySession(), "alice", "alice123"));
+    await app.logIn(getEmptySession(), "alice", "wonderland-1");
+  });
+});
+
+describe("Sessions", () => {
+  it("can be listed and revoked, and changing the password revokes the others", async () => {
+    const laptop = getEmptySession();
+    const phone = getEmptySession();
+    const tablet = getEmptySession();
+    await app.logIn(laptop, "alice", "alice123", undefined, "laptop");
+    await app.logIn(phone, "alice", "alice123", undefined, "phone");
+    await app.logIn(tablet, "alice", "alice123", undefined, "tablet");
+
+    const sessions = await app.getSessions(laptop);
+    assert.deepEqual(sessions.map((one) => one.userAgent).sort(), ["laptop", "phone", "tablet"]);
+    assert.deepEqual(
+      sessions.filter((one) => one.current).map((one) => one.userAgent),
+      ["laptop"],
+    );
+
+    const phoneId = sessions.find((one) => one.userAgent === "phone")!._id;
+    await app.revokeSession(laptop, phoneId.toString());
+    await Sessioning.touch(phone);
+    await assert.rejects(app.getSessionUser(phone), "Revoked sessions are logged out");
+
+    await app.updatePassword(laptop, "alice123", "alice-in-wonderland");
+    await Sessioning.touch(tablet);
+    await assert.rejects(app.getSessionUser(tablet), "Changing the password revokes other sessions");
+    await Sessioning.touch(laptop);
+    assert.equal((await app.getSessionUser(laptop)).username, "alice");
+    assert.deepEqual(
+      (await app.getSessions(laptop)).map((one) => one.userAgent),
+      ["laptop"],
+    );
+  });
+
+  it("leaves out sessions that expired", async () => {
+    const laptop = getEmptySession();
+    const phone = getEmptySession();
+    await app.logIn(laptop, "alice", "alice123", undefined, "laptop", "laptop-session");
+    await app.logIn(phone, "alice", "alice123", undefined, "phone", "phone-session");
+    const longAgo = new Date(Date.now() - (Sessioning.expiryDays + 1) * 24 * 60 * 60 * 1000);
+    await Sessioning.records.partialUpdateOne({ sessionId: "phone-session" }, { lastSeen: longAgo });
+
+    assert.deepEqual(
+      (await app.getSessions(laptop)).map((one) => one.userAgent),
+      ["laptop"],
+    );
+  });
+});
+
+describe("Task completion and progress", () => {
+  it("assignees and the manager can complete tasks, others cannot", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+    const bobId = (await app.getUser("bob"))._id;
+
+    const { project } = await app.createProject(alice, "garden");
+    assert(project);
+    const created = await app.createTask(alice, project._id.toString(), "water the basil");
+    assert(created.task);
+    const task = created.task._id.toString();
+
+    await assert.rejects(app.completeTask(bob, task), "Non-assignee should not be able to complete a task");
+    const { invite } = await app.inviteToProject(alice, project._id.toString(), "bob");
+    await app.acceptProjectInvite(bob, invite!._id.toString());
+    await app.addTaskAssignee(alice, task, bobId.toString());
+    await app.completeTask(bob, task);
+
+    const progress = await app.getProjectProgress(alice, project._id.toString());
+    assert.deepEqual(progress.project, { completed: 1, total: 1, percent: 100 });
+    assert.deepEqual(
+      progress.members.find((member) => member.member === "bob"),
+      { member: "bob", completed: 1, total: 1, percent: 100 },
+    );
+
+    await app.reopenTask(alice, task);
+    assert.deepEqual((await app.getProjectProgress(bob, project._id.toString())).project, { completed: 0, total: 1, percent: 0 });
+  });
+
+  it("assigned viewers can complete and reopen their own tasks, but no others", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+    const bobId = (await app.getUser("bob"))._id;
+
+    const { project } = await app.createProject(alice, "garden");
+    const projectId = project!._id.toString();
+    const { invite } = await app.inviteToProject(alice, projectId, "bob", "viewer");
+    await app.acceptProjectInvite(bob, invite!._id.toString());
+    const own = (await app.createTask(alice, projectId, "water the basil")).task!._id.toString();
+    const other = (await app.createTask(alice, projectId, "weed the beds")).task!._id.toString();
+    await app.addTaskAssignee(alice, own, bobId.toString());
+
+    await app.completeTask(bob, own);
+    await app.reopenTask(bob, own);
+    await assert.rejects(app.completeTask(bob, other), "Viewers cannot complete tasks they are not assigned to");
+  });
+});
+
+describe("Task dependencies", () => {
+  it("blocked tasks cannot be completed and cycles are rejected", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+
+    const { project } = await app.createProject(alice, "greenhouse");
+    assert(project);
+    const projectId = project._id.toString();
+    const dig = (await app.createTask(alice, projectId, "dig")).task!._id.toString();
+    const plant = (await app.createTask(alice, projectId, "plant")).task!._id.toString();
+    const water = (await app.createTask(alice, projectId, "water")).task!._id.toString();
+
+    await app.addTaskDependency(alice, plant, dig);
+    await app.addTaskDependency(alice, water, plant);
+    await assert.rejects(app.addTaskDependency(alice, dig, water), "Dependency cycle should be rejected");
+    await assert.rejects(app.addTaskDependency(alice, dig, dig), "Task should not depend on itself");
+
+    await assert.rejects(app.completeTask(alice, plant), "Blocked task should not be completed");
+    await app.completeTask(alice, dig);
+    await app.completeTask(alice, plant);
+
+    const graph = await app.getTasksForProject(alice, projectId, undefined, undefined, undefined, "true");
+    assert(!Array.isArray(graph));
+    assert.deepEqual(
+      graph.order.map((id) => id.toString()),
+      [dig, plant, water],
+    );
+    assert.deepEqual(
+      graph.actionable.map((id) => id.toString()),
+      [water],
+    );
+  });
+});
+
+describe("Task checklists", () => {
+  it("subtasks can be added, moved, checked, unchecked and removed", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const { project } = await app.createProject(alice, "herb bed");
+    const task = (await app.createTask(alice, project!._id.toString(), "plant herbs")).task!._id.toString();
+
+    const sow = (await app.addChecklistItem(alice, task, "sow")).item._id.toString();
+    const water = (await app.addChecklistItem(alice, task, "water")).item._id.toString();
+    const dig = (await app.addChecklistItem(alice, task, "dig", "0")).item._id.toString();
+    await app.moveChecklistItem(alice, task, water, "99");
+    await app.moveChecklistItem(alice, task, sow, "1");
+    const descriptions = async () => (await app.getTaskChecklist(alice, task)).checklist.map((item) => item.description);
+    assert.deepEqual(await descriptions(), ["dig", "sow", "water"]);
+
+    await Promise.all([app.checkChecklistItem(alice, task, dig), app.checkChecklistItem(alice, task, water)]);
+    assert.deepEqual((await app.getTaskChecklist(alice, task)).progress, { completed: 2, total: 3, percent: 67 }, "Checks made at the same time are all kept");
+    await app.uncheckChecklistItem(alice, task, water);
+    assert.deepEqual((await app.getTaskChecklist(alice, task)).progress, { completed: 1, total: 3, percent: 33 });
+
+    await app.removeChecklistItem(alice, task, sow);
+    assert.deepEqual(await descriptions(), ["dig", "water"]);
+    await assert.rejects(app.removeChecklistItem(alice, task, sow), "Removed subtasks are gone");
+  });
+
+  it("auto-completing tasks are completed with their last subtask and reopened when one is unchecked", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const { project } = await app.createProject(alice, "herb bed");
+    const task = (await app.createTask(alice, project!._id.toString(), "plant herbs")).task!._id.toString();
+    const dig = (await app.addChecklistItem(alice, task, "dig")).item._id.toString();
+    const sow = (await app.addChecklistItem(alice, task, "sow")).item._id.toString();
+    await app.setTaskAutoComplete(alice, task, "true");
+
+    await app.checkChecklistItem(alice, task, dig);
+    assert.equal((await app.getTaskChecklist(alice, task)).progress.percent, 50);
+    await app.checkChecklistItem(alice, task, sow);
+    assert.equal((await app.getTaskChecklist(alice, task)).progress.percent, 100, "Checking the last subtask completes the task");
+
+    await app.uncheckChecklistItem(alice, task, dig);
+    assert.equal((await app.getTaskChecklist(alice, task)).progress.percent, 50, "Unchecking a subtask reopens the task");
+  });
+});
+
+describe("Task comments", () => {
+  it("are listed oldest first and only their author can edit or delete them", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+
+    const { project } = await app.createProject(alice, "pond");
+    const projectId = project!._id.toString();
+    const { invite } = await app.inviteToProject(alice, projectId, "bob");
+    await app.acceptProjectInvite(bob, invite!._id.toString());
+    const task = (await app.createTask(alice, projectId, "clean the filter")).task!._id.toString();
+
+    const first = (await app.createTaskComment(alice, task, "needs a new sponge")).comment!._id.toString();
+    const second = (await app.createTaskComment(bob, task, "I can get one")).comment!._id.toString();
+    await assert.rejects(app.updateTaskComment(bob, first, "no it does not"), "Only the author can edit a comment");
+    await assert.rejects(app.deleteTaskComment(alice, second), "Only the author can delete a comment");
+    await app.updateTaskComment(alice, first, "needs two new sponges");
+
+    const comments = await app.getTaskComments(bob, task);
+    assert.deepEqual(
+      comments.map((comment) => [comment.author, comment.content]),
+      [
+        ["alice", "needs two new sponges"],
+        ["bob", "I can get one"],
+      ],
+    );
+
+    await app.deleteTaskComment(bob, second);
+    assert.deepEqual(
+      (await app.getTaskComments(alice, task)).map((comment) => comment._id.toString()),
+      [first],
+    );
+  });
+
+  it("are deleted together with their task or project", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const { project } = await app.createProject(alice, "pond");
+    const projectId = project!._id.toString();
+    const deleted = (await app.createTask(alice, projectId, "clean the filter")).task!._id;
+    const kept = (await app.createTask(alice, projectId, "feed the fish")).task!._id;
+    await app.createTaskComment(alice, deleted.toString(), "needs a new sponge");
+    await app.createTaskComment(alice, kept.toString(), "flakes, not pellets");
+
+    await app.deleteTask(alice, deleted.toString());
+    assert.equal((await TaskComment.getByTarget(deleted)).length, 0);
+    assert.equal((await TaskComment.getByTarget(kept)).length, 1);
+
+    await app.archiveProject(alice, projectId);
+    await app.deleteProject(alice, projectId);
+    assert.equal((await TaskComment.getByTarget(kept)).length, 0);
+  });
+});
+
+describe("Recurring tasks", () => {
+  const day = (month: number, date: number) => new Date(2026, month - 1, date, 9);
+
+  it("weekly rules go through the given weekdays, skipping weeks by the interval", () => {
+    const rule = { frequency: "weekly" as const, weekdays: [1, 4] };
+    assert.deepEqual(TaskSeries.nextOccurrence(rule, day(1, 5)), day(1, 8), "Monday to Thursday");
+    assert.deepEqual(TaskSeries.nextOccurrence(rule, day(1, 8)), day(1, 12), "Thursday to next Monday");
+    assert.deepEqual(TaskSeries.nextOccurrence({ ...rule, interval: 2 }, day(1, 8)), day(1, 19), "Thursday to Monday two weeks later");
+  });
+
+  it("monthly rules keep their day of the month, clamped to shorter months", () => {
+    const rule = { frequency: "monthly" as const, dayOfMonth: 31 };
+    assert.deepEqual(TaskSeries.nextOccurrence(rule, day(1, 31)), day(2, 28));
+    assert.deepEqual(TaskSeries.nextOccurrence(rule, day(2, 28)), day(3, 31));
+    assert.deepEqual(TaskSeries.nextOccurrence({ ...rule, interval: 3 }, day(1, 31)), day(4, 30));
+  });
+
+  it("completing an occurrence creates the next one until the series is stopped", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const aliceId = (await app.getUser("alice"))._id;
+    const { project } = await app.createProject(alice, "hens");
+    const projectId = project!._id.toString();
+
+    const created = await app.createRecurringTask(alice, projectId, "collect eggs", { frequency: "weekly", weekdays: [1, 4] }, aliceId.toString());
+    const series = created.series._id.toString();
+    const first = created.task;
+    await app.updateTaskDates(alice, first._id.toString(), new Date(first.due!.getTime() - 2 * 60 * 60 * 1000).toISOString());
+
+    const completed = await app.completeTask(alice, first._id.toString());
+    assert("next" in completed && completed.next);
+    const second = completed.next;
+    assert(second.due! > first.due!);
+    assert.equal(second.due!.getTime() - second.start!.getTime(), 2 * 60 * 60 * 1000, "Keeps the distance between start and due");
+    assert.deepEqual(
+      (await app.getAssigneesForTask(alice, second._id.toString())).map((assignee) => assignee.item.toString()),
+      [aliceId.toString()],
+    );
+
+    await app.updateRecurringTask(alice, series, "collect and wash eggs");
+    assert.equal((await Task.getTask(second._id))!.description, "collect and wash eggs", "Open occurrences are renamed");
+    assert.equal((await Task.getTask(first._id))!.description, "collect eggs", "Completed occurrences are left alone");
+
+    await app.stopRecurringTask(alice, series);
+    const last = await app.completeTask(alice, second._id.toString());
+    assert(!("next" in last) || !last.next, "Stopped series create no further occurrences");
+    assert.equal((await Task.getAllTasksForProject(project!._id)).length, 2);
+  });
+
+  it("moving an occurrence into the terminal column creates the next one", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const { project } = await app.createProject(alice, "hens");
+    const projectId = project!._id.toString();
+    const { task } = await app.createRecurringTask(alice, projectId, "collect eggs", { frequency: "daily" });
+    const done = (await app.getProjectStatuses(alice, projectId)).find((status) => status.terminal)!._id.toString();
+
+    const moved = await app.moveTask(alice, task._id.toString(), done);
+    assert("next" in moved && moved.next);
+    assert(moved.next.due! > task.due!);
+    assert.equal((await Task.getAllTasksForProject(project!._id)).length, 2);
+  });
+});
+
+describe("Task search", () => {
+  // search with only the filters the tests need
+  async function search(session: SessionDoc, filters: { projects?: string; text?: string; sort?: string; order?: string; cursor?: string; limit?: string }) {
+    const { projects, text, sort, order, cursor, limit } = filters;
+    return await app.searchTasks(session, projects, undefined, undefined, text, undefined, undefined, undefined, undefined, sort, order, cursor, limit);
+  }
+
+  it("matches text case-insensitively in the caller's projects and pages through every result", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+
+    const kitchen = (await app.createProject(alice, "kitchen")).project!._id.toString();
+    await app.createTask(alice, kitchen, "chop onions", undefined, undefined, "2026-03-02");
+    await app.createTask(alice, kitchen, "buy ONION rings");
+    await app.createTask(alice, kitchen, "wash dishes", undefined, undefined, "2026-03-01");
+    const garage = (await app.createProject(bob, "garage")).project!._id.toString();
+    await app.createTask(bob, garage, "onion storage");
+
+    const found = await search(alice, { text: "onion", sort: "description" });
+    assert.deepEqual(
+      found.tasks.map((task) => task.description),
+      ["buy ONION rings", "chop onions"],
+    );
+    assert.equal(found.next, undefined);
+    assert.deepEqual((await search(alice, { projects: garage })).tasks, [], "Projects the caller is not a member of are left out");
+
+    // tasks without a due date come first when sorting by due date
+    const descriptions = [];
+    let cursor;
+    do {
+      const page: Awaited<ReturnType<typeof search>> = await search(alice, { sort: "due", order: "asc", cursor, limit: "1" });
+      assert(page.tasks.length <= 1);
+      descriptions.push(...page.tasks.map((task) => task.description));
+      cursor = page.next;
+    } while (cursor);
+    assert.deepEqual(descriptions, ["buy ONION rings", "wash dishes", "chop onions"]);
+  });
+});
+
+describe("Bulk task updates", () => {
+  it("report a result per task and check permissions per project", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+
+    const north = (await app.createProject(alice, "north")).project!._id.toString();
+    const east = (await app.createProject(bob, "east")).project!._id.toString();
+    const { invite } = await app.inviteToProject(bob, east, "alice", "viewer");
+    await app.acceptProjectInvite(alice, invite!._id.toString());
+    const first = (await app.createTask(alice, north, "sweep")).task!._id.toString();
+    const second = (await app.createTask(alice, north, "mop")).task!._id.toString();
+    const viewed = (await app.createTask(bob, east, "paint")).task!._id.toString();
+
+    const missing = new ObjectId().toString();
+    const { results } = await app.bulkUpdateTasks(alice, "complete", [first, viewed, "nope", missing, second]);
+    assert.deepEqual(
+      results.map((result) => [result.task, result.ok]),
+      [
+        [first, true],
+        [viewed, false],
+        ["nope", false],
+        [missing, false],
+        [second, true],
+      ],
+    );
+    assert((await Task.getTask(new ObjectId(first)))!.completion);
+    assert(!(await Task.getTask(new ObjectId(viewed)))!.completion, "Tasks in projects where the caller lacks the permission are left alone");
+
+    await assert.rejects(app.bulkUpdateTasks(alice, "shred", [first]), "Unknown operations are rejected");
+    await assert.rejects(app.bulkUpdateTasks(alice, "assign", [first]), "Assigning needs an assignee");
+  });
+
+  it("move tasks to another project, dropping assignees who are not members there", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+    const bobId = (await app.getUser("bob"))._id;
+
+    const north = (await app.createProject(alice, "north")).project!._id.toString();
+    const south = (await app.createProject(alice, "south")).project!._id.toString();
+    const east = (await app.createProject(bob, "east")).project!._id.toString();
+    const { invite } = await app.inviteToProject(alice, north, "bob");
+    await app.acceptProjectInvite(bob, invite!._id.toString());
+    const first = (await app.createTask(alice, north, "sweep", bobId.toString())).task!._id.toString();
+    const second = (await app.createTask(alice, north, "mop")).task!._id.toString();
+
+    await assert.rejects(app.bulkUpdateTasks(alice, "move", [first, second], undefined, east), "Cannot move tasks into a project without creating tasks there");
+    const { results } = await app.bulkUpdateTasks(alice, "move", `${first}, ${second}`, undefined, south);
+    assert(results.every((result) => result.ok));
+    assert.deepEqual((await Task.getAllTasksForProject(new ObjectId(south))).map((task) => task._id.toString()).sort(), [first, second].sort());
+    assert.deepEqual(await app.getAssigneesForTask(alice, first), []);
+  });
+});
+
+describe("Task due dates", () => {
+  it("filter tasks that are overdue, due this week or due between two dates", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const project = (await app.createProject(alice, "attic")).project!._id.toString();
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const late = (await app.createTask(alice, project, "sort boxes", undefined, undefined, "2025-01-01")).task!._id.toString();
+    const done = (await app.createTask(alice, project, "fix the hatch", undefined, undefined, "2025-01-02")).task!._id.toString();
+    await app.completeTask(alice, done);
+    const current = (await app.createTask(alice, project, "check for leaks", undefined, undefined, today.toISOString())).task!._id.toString();
+    await app.createTask(alice, project, "insulate", undefined, undefined, "2099-01-01");
+    await app.createTask(alice, project, "tidy up");
+
+    const filtered = async (due?: string, from?: string, to?: string) => {
+      const tasks = await app.getTasksForProject(alice, project, due, from, to);
+      assert(Array.isArray(tasks));
+      return tasks.map((task) => task._id.toString()).sort();
+    };
+    assert.deepEqual(await filtered("overdue"), [late, current].sort(), "Completed tasks are never overdue");
+    assert.deepEqual(await filtered("week"), [current]);
+    assert.deepEqual(await filtered(undefined, "2024-12-01", "2025-02-01"), [late, done].sort());
+    await assert.rejects(app.getTasksForProject(alice, project, "someday"));
+    await assert.rejects(app.getTasksForProject(alice, project, undefined, "not a date"));
+  });
+
+  it("filter the user's own tasks, leaving out archived projects", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const aliceId = (await app.getUser("alice"))._id.toString();
+    const attic = (await app.createProject(alice, "attic")).project!._id.toString();
+    const cellar = (await app.createProject(alice, "cellar")).project!._id.toString();
+    const kept = (await app.createTask(alice, attic, "sort boxes", aliceId, undefined, "2025-01-01")).task!._id.toString();
+    await app.createTask(alice, attic, "tidy up", aliceId);
+    await app.createTask(alice, attic, "insulate", undefined, undefined, "2025-01-01");
+    await app.createTask(alice, cellar, "fix the stairs", aliceId, undefined, "2025-01-01");
+    await app.archiveProject(alice, cellar);
+
+    const tasks = await app.getTasksForUser(alice, "overdue");
+    assert.deepEqual(
+      tasks.map((task) => task._id.toString()),
+      [kept],
+    );
+  });
+
+  it("cannot start after they are due", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const project = (await app.createProject(alice, "attic")).project!._id.toString();
+
+    await assert.rejects(app.createTask(alice, project, "sort boxes", undefined, "2026-05-02", "2026-05-01"));
+    const task = (await app.createTask(alice, project, "sort boxes", undefined, "2026-05-01", "2026-05-03")).task!._id.toString();
+    await assert.rejects(app.updateTaskDates(alice, task, "2026-05-04"), "Start moved past the existing due date");
+    await assert.rejects(app.updateTaskDates(alice, task, undefined, "2026-04-30"), "Due moved before the existing start date");
+    await app.updateTaskDates(alice, task, "2026-05-03", "2026-05-03");
+  });
+});
+
+describe("Task status columns", () => {
+  it("moving a task into the terminal column completes it", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+
+    const { project } = await app.createProject(alice, "orchard");
+    assert(project);
+    const projectId = project._id.toString();
+    const statuses = await app.getProjectStatuses(alice, projectId);
+    assert.deepEqual(
+      statuses.map((status) => status.name),
+      ["todo", "in progress", "in review", "done"],
+    );
+    const done = statuses.find((status) => status.terminal)!._id.toString();
+
+    const first = (await app.createTask(alice, projectId, "prune")).task!._id.toString();
+    const second = (await app.createTask(alice, projectId, "harvest")).task!._id.toString();
+    await app.moveTask(alice, first, done);
+    await app.moveTask(alice, second, done, "0");
+
+    const board = await app.getProjectBoard(alice, projectId);
+    const doneColumn = board.find((column) => column.status.terminal)!;
+    assert.deepEqual(
+      doneColumn.tasks.map((task) => task._id.toString()),
+      [second, first],
+    );
+    assert(doneColumn.tasks.every((task) => task.completion));
+
+    await app.reopenTask(alice, first);
+    const reopened = await app.getProjectBoard(alice, projectId);
+    assert.deepEqual(
+      reopened[0].tasks.map((task) => task._id.toString()),
+      [first],
+    );
+  });
+
+  it("keeps the last column that is not terminal", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const { project } = await app.createProject(alice, "orchard");
+    const projectId = project!._id.toString();
+    const statuses = await app.getProjectStatuses(alice, projectId);
+    const [todo, ...rest] = statuses.filter((status) => !status.terminal);
+    for (const status of rest) {
+      await app.deleteProjectStatus(alice, status._id.toString());
+    }
+
+    await assert.rejects(app.deleteProjectStatus(alice, todo._id.toString()));
+    const task = (await app.createTask(alice, projectId, "prune")).task!;
+    assert.equal(task.status?.toString(), todo._id.toString(), "New tasks still get a column");
+  });
+});
+
+describe("Project activity", () => {
+  it("records who changed what and pages through it newest first", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+
+    const { project } = await app.createProject(alice, "orchard");
+    assert(project);
+    const projectId = project._id.toString();
+    const task = (await app.createTask(alice, projectId, "prune")).task!._id.toString();
+    await app.updateTaskDescription(alice, task, "prune the apple trees");
+
+    const first = await app.getProjectActivity(alice, projectId, undefined, "2");
+    assert.deepEqual(
+      first.activities.map((activity) => activity.action),
+      ["task.rename", "task.create"],
+    );
+    assert.equal(first.activities[0].actor, "alice");
+    assert.deepEqual(first.activities[0].before, { description: "prune" });
+    assert.deepEqual(first.activities[0].after, { description: "prune the apple trees" });
+
+    const second = await app.getProjectActivity(alice, projectId, first.next);
+    assert.deepEqual(
+      second.activities.map((activity) => activity.action),
+      ["project.create"],
+    );
+    assert.equal(second.next, undefined);
+
+    const bob = getEmptySession();
+    await app.logIn(bob, "bob", "bobby123");
+    await assert.rejects(app.getProjectActivity(bob, projectId));
+  });
+});
+
+describe("Project roles", () => {
+  it("permissions follow the member's role", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+    const bobId = (await app.getUser("bob"))._id.toString();
+
+    const { project } = await app.createProject(alice, "orchard");
+    assert(project);
+    const projectId = project._id.toString();
+    const { invite } = await app.inviteToProject(alice, projectId, "bob", "viewer");
+    await app.acceptProjectInvite(bob, invite!._id.toString());
+    await assert.rejects(app.createTask(bob, projectId, "prune"), "Viewers should not be able to create tasks");
+
+    await app.updateMemberRole(alice, projectId, bobId, "contributor");
+    const task = (await app.createTask(bob, projectId, "prune")).task!._id.toString();
+    await app.completeTask(bob, task);
+    await assert.rejects(app.deleteTask(bob, task), "Contributors should not be able to delete tasks");
+    await assert.rejects(app.updateProjectName(bob, projectId, "grove"));
+
+    await app.updateMemberRole(alice, projectId, bobId, "manager");
+    await app.updateProjectName(bob, projectId, "grove");
+    await app.deleteTask(bob, task);
+    await assert.rejects(app.deleteMemberFromProject(bob, projectId, (await app.getUser("alice"))._id.toString()), "The owner should not be removable");
+    await app.archiveProject(alice, projectId);
+    await assert.rejects(app.deleteProject(bob, projectId), "Managers should not be able to delete the project");
+
+    await app.restoreProject(alice, projectId);
+    await app.updateProjectManager(alice, projectId, bobId);
+    const members = await app.getAllMembersInProject(alice, projectId);
+    assert.deepEqual(members.map((member) => member.role).sort(), ["manager", "owner"]);
+    await app.archiveProject(bob, projectId);
+    await app.deleteProject(bob, projectId);
+  });
+
+  it("removing a member unassigns them only from that project's tasks", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+    const bobId = (await app.getUser("bob"))._id.toString();
+
+    const tasks = [];
+    for (const name of ["orchard", "vineyard"]) {
+      const projectId = (await app.createProject(alice, name)).project!._id.toString();
+      const { invite } = await app.inviteToProject(alice, projectId, "bob");
+      await app.acceptProjectInvite(bob, invite!._id.toString());
+      tasks.push({ projectId, task: (await app.createTask(alice, projectId, "prune", bobId)).task!._id.toString() });
+    }
+
+    await app.deleteMemberFromProject(alice, tasks[0].projectId, bobId);
+    assert.deepEqual(await app.getAssigneesForTask(alice, tasks[0].task), []);
+    assert.deepEqual(
+      (await app.getAssigneesForTask(alice, tasks[1].task)).map((assignee) => assignee.item.toString()),
+      [bobId],
+    );
+  });
+});
+
+describe("Project invites", () => {
+  it("only the invitee can accept or reject an invite", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+
+    const { project } = await app.createProject(alice, "orchard");
+    assert(project);
+    const projectId = project._id.toString();
+    const first = (await app.inviteToProject(alice, projectId, "bob")).invite!._id.toString();
+    await assert.rejects(app.inviteToProject(alice, projectId, "bob"), "Should not be able to invite twice");
+    await assert.rejects(app.getAllMembersInProject(bob, projectId), "Invitees are not members yet");
+    await assert.rejects(app.acceptProjectInvite(alice, first), "Only the invitee can accept");
+
+    assert.deepEqual(
+      (await app.getUserInvites(bob)).map((invite) => invite.projectName),
+      ["orchard"],
+    );
+    await app.rejectProjectInvite(bob, first);
+    await assert.rejects(app.acceptProjectInvite(bob, first), "Rejected invites cannot be accepted");
+    assert.deepEqual(await app.getUserInvites(bob), []);
+
+    const second = (await app.inviteToProject(alice, projectId, "bob")).invite!._id.toString();
+    await app.cancelProjectInvite(alice, second);
+    await assert.rejects(app.acceptProjectInvite(bob, second), "Cancelled invites cannot be accepted");
+
+    const third = (await app.inviteToProject(alice, projectId, "bob")).invite!._id.toString();
+    await app.acceptProjectInvite(bob, third);
+    assert.equal((await app.getAllMembersInProject(bob, projectId)).length, 2);
+  });
+});
+
+describe("Archived projects", () => {
+  it("are hidden, read-only and deletable only once archived", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+
+    const { project } = await app.createProject(alice, "orchard");
+    assert(project);
+    const projectId = project._id.toString();
+    await app.createTask(alice, projectId, "prune");
+    await assert.rejects(app.deleteProject(alice, projectId), "Only archived projects can be deleted");
+
+    await app.archiveProject(alice, projectId);
+    assert.deepEqual(await app.getUserProjects(alice), []);
+    assert.equal((await app.getUserProjects(alice, "true")).length, 1);
+    await assert.rejects(app.createTask(alice, projectId, "harvest"), "Archived projects are read-only");
+    assert.equal((await app.getProjectBoard(alice, projectId))[0].tasks.length, 1);
+
+    await app.restoreProject(alice, projectId);
+    await app.createTask(alice, projectId, "harvest");
+    assert.equal((await app.getUserProjects(alice)).length, 1);
+
+    await app.archiveProject(alice, projectId);
+    await app.deleteProject(alice, projectId);
+    assert.deepEqual(await app.getUserProjects(alice, "true"), []);
+  });
+
+  it("cannot be deleted before the deletion grace period is over", async () => {
+    const projects = new ProjectConcept("graceperiodprojects", 30);
+    const { project } = await projects.create(new ObjectId(), "vineyard");
+    await projects.archive(project!._id);
+    await assert.rejects(projects.assertCanBeDeleted(project!._id), /can only be deleted after/);
+  });
+
+  it("cannot be joined, but invites to them still work once they are restored", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+    const projectId = (await app.createProject(alice, "orchard")).project!._id.toString();
+    const invite = (await app.inviteToProject(alice, projectId, "bob")).invite!._id.toString();
+
+    await app.archiveProject(alice, projectId);
+    await assert.rejects(app.acceptProjectInvite(bob, invite));
+    await app.restoreProject(alice, projectId);
+    await app.acceptProjectInvite(bob, invite);
+    assert.equal((await app.getUserProjects(bob)).length, 1);
+  });
+});
+
+describe("Project templates", () => {
+  it("keeps tasks, checklists and relative dates", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+
+    const { project } = await app.createProject(alice, "spring 2026");
+    assert(project);
+    const projectId = project._id.toString();
+    const sow = (await app.createTask(alice, projectId, "sow", undefined, "2026-03-01", "2026-03-03")).task!._id.toString();
+    await app.addChecklistItem(alice, sow, "tomatoes");
+    await app.addChecklistItem(alice, sow, "basil");
+    await app.createTask(alice, projectId, "plant out", undefined, undefined, "2026-05-01");
+    await app.completeTask(alice, sow);
+
+    const { template } = await app.createTemplate(alice, projectId, "spring");
+    assert(template);
+    const created = await app.createProjectFromTemplate(alice, template._id.toString(), "spring 2027", "2027-03-01");
+    const tasks = (await app.getProjectBoard(alice, created.project._id.toString()))[0].tasks;
+    assert.deepEqual(
+      tasks.map((task) => [task.description, task.due?.toISOString(), task.completion]),
+      [
+        ["plant out", new Date("2027-05-01").toISOString(), false],
+        ["sow", new Date("2027-03-03").toISOString(), false],
+      ],
+    );
+    assert.deepEqual(
+      tasks[1].checklist?.map((subtask) => subtask.description),
+      ["tomatoes", "basil"],
+    );
+
+    const copy = await app.duplicateProject(alice, projectId, "spring 2026 copy");
+    const copied = (await app.getProjectBoard(alice, copy.project._id.toString()))[0].tasks;
+    assert.deepEqual(
+      copied.map((task) => task.due?.toISOString()),
+      [new Date("2026-05-01").toISOString(), new Date("2026-03-03").toISOString()],
+    );
+  });
+});
+
+describe("Project milestones", () => {
+  it("group tasks and report how much of them is done", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+
+    const projectId = (await app.createProject(alice, "garden")).project!._id.toString();
+    const sow = (await app.createTask(alice, projectId, "sow")).task!._id.toString();
+    const water = (await app.createTask(alice, projectId, "water")).task!._id.toString();
+    const spring = (await app.createMilestone(alice, projectId, "spring", "2026-04-01")).milestone!._id.toString();
+    await app.createMilestone(alice, projectId, "someday");
+    await app.createMilestone(alice, projectId, "winter", "2026-01-01");
+    await assert.rejects(app.createMilestone(alice, projectId, "spring"), "Milestone names are unique");
+
+    await app.attachMilestoneTask(alice, spring, sow);
+    await app.attachMilestoneTask(alice, spring, water);
+    await assert.rejects(app.attachMilestoneTask(alice, spring, sow), "A task belongs to at most one milestone");
+    await app.completeTask(alice, sow);
+
+    const milestones = await app.getProjectMilestones(alice, projectId);
+    assert.deepEqual(
+      milestones.map((milestone) => milestone.name),
+      ["winter", "spring", "someday"],
+    );
+    assert.deepEqual(
+      milestones[1].tasks.map((task) => task.toString()),
+      [sow, water],
+    );
+    assert.deepEqual(milestones[1].progress, { completed: 1, total: 2, percent: 50 });
+
+    await app.deleteTask(alice, water);
+    assert.deepEqual((await app.getProjectMilestones(alice, projectId))[1].progress, { completed: 1, total: 1, percent: 100 });
+
+    await app.archiveProject(alice, projectId);
+    await app.deleteProject(alice, projectId);
+    assert.deepEqual(await Milestone.getMilestonesForProject(new ObjectId(projectId)), []);
+  });
+});
+
+describe("Project plants", () => {
+  it("grow with completed tasks and wilt while tasks are overdue", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+
+    const projectId = (await app.createProject(alice, "garden")).project!._id.toString();
+    const [seedling] = await app.getUserProjects(alice);
+    assert.deepEqual(seedling.plant, { stage: "seed", wilting: false, reasons: [], changed: undefined });
+
+    const sow = (await app.createTask(alice, projectId, "sow")).task!._id.toString();
+    await app.completeTask(alice, sow);
+    await app.createTask(alice, projectId, "water", undefined, undefined, "2020-01-01");
+
+    const { plant, transitions } = await app.getProjectPlant(alice, projectId);
+    assert.deepEqual([plant.stage, plant.wilting, plant.reasons], ["sprout", true, ["overdue"]]);
+    assert.deepEqual(
+      transitions.map((transition) => [transition.from.stage, transition.to.stage, transition.to.wilting]),
+      [["seed", "sprout", true]],
+    );
+    assert.deepEqual((await app.getProjectPlant(alice, projectId, plant.changed!.toISOString())).transitions, []);
+  });
+
+  it("are tended once however many requests come at once, and only for members", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+    const projectId = (await app.createProject(alice, "garden")).project!._id;
+
+    const found = await app.getProject(bob, "garden");
+    assert(Array.isArray(found) && found.length === 1 && found[0].plant === undefined, "Non-members get no plant");
+    assert.equal(await Plant.plants.count({ garden: projectId }), 0, "Non-members do not tend the plant");
+
+    await Promise.all([app.getUserProjects(alice), app.getUserProjects(alice), app.getUserProjects(alice)]);
+    assert.equal(await Plant.plants.count({ garden: projectId }), 1);
+  });
+});
+
+describe("Project statistics", () => {
+  it("counts tasks per status, per assignee and over time", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+    const bobId = (await app.getUser("bob"))._id.toString();
+
+    const projectId = (await app.createProject(alice, "garden")).project!._id.toString();
+    const { invite } = await app.inviteToProject(alice, projectId, "bob");
+    await app.acceptProjectInvite(bob, invite!._id.toString());
+    const sow = (await app.createTask(alice, projectId, "sow", bobId)).task!._id.toString();
+    await app.createTask(alice, projectId, "water");
+    await app.createTask(alice, projectId, "weed");
+    await app.completeTask(bob, sow);
+
+    const stats = await app.getProjectStats(bob, projectId, "day");
+    assert.equal(stats.tasks, 3);
+    assert.deepEqual(
+      stats.statuses.map((status) => [status.name, status.tasks]),
+      [
+        ["todo", 2],
+        ["in progress", 0],
+        ["in review", 0],
+        ["done", 1],
+      ],
+    );
+    assert.deepEqual(stats.assignees, [{ assignee: "bob", tasks: 1 }]);
+    assert.equal(stats.unassigned, 2);
+    assert.deepEqual(
+      stats.history.map(({ created, completed, percent }) => ({ created, completed, percent })),
+      [{ created: 3, completed: 1, percent: 33 }],
+    );
+    assert.equal(stats.completionTime.completed, 1);
+    await assert.rejects(app.getProjectStats(bob, projectId, "month"));
+  });
+});
+
+describe("Project export and import", () => {
+  it("recreates the project under the importing user", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+    const bobId = (await app.getUser("bob"))._id.toString();
+
+    const projectId = (await app.createProject(alice, "garden")).project!._id.toString();
+    const { invite } = await app.inviteToProject(alice, projectId, "bob", "contributor");
+    await app.acceptProjectInvite(bob, invite!._id.toString());
+    const water = (await app.createTask(alice, projectId, "water", bobId, undefined, "2026-06-01")).task!._id.toString();
+    const weed = (await app.createTask(alice, projectId, "weed")).task!._id.toString();
+    await app.addChecklistItem(alice, weed, "beds");
+    await app.addTaskDependency(alice, water, weed);
+    await app.createTaskComment(bob, weed, "use gloves");
+
+    // the export survives a trip through JSON, and unknown usernames are left out on import
+    const bundle = JSON.parse(JSON.stringify(await app.exportProject(alice, projectId)));
+    bundle.members.push({ username: "carol", role: "viewer" });
+    const imported = await app.importProject(bob, bundle, "garden copy");
+    assert.deepEqual(imported.unmatchedUsers, ["carol"]);
+    assert.equal(imported.skippedComments, 0);
+
+    const copyId = imported.project._id.toString();
+    const members = await app.getAllMembersInProject(bob, copyId);
+    assert.deepEqual(
+      members.map((member) => member.role),
+      ["owner", "manager"],
+    );
+    const tasks = (await app.getProjectBoard(bob, copyId))[0].tasks;
+    assert.deepEqual(
+      tasks.map((task) => [task.description, task.due?.toISOString(), task.checklist?.length ?? 0]),
+      [
+        ["water", new Date("2026-06-01").toISOString(), 0],
+        ["weed", undefined, 1],
+      ],
+    );
+    assert.deepEqual(
+      (await app.getAssigneesForTask(bob, tasks[0]._id.toString())).map((link) => link.item.toString()),
+      [bobId],
+    );
+    await assert.rejects(app.completeTask(bob, tasks[0]._id.toString()), "Blocked tasks stay blocked");
+    assert.deepEqual(
+      (await app.getTaskComments(bob, tasks[1]._id.toString())).map((comment) => comment.content),
+      ["use gloves"],
+    );
+  });
+
+  it("rejects invalid bundles without creating anything", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+
+    const projectId = (await app.createProject(alice, "garden")).project!._id.toString();
+    const bundle = JSON.parse(JSON.stringify(await app.exportProject(alice, projectId)));
+    await assert.rejects(app.importProject(alice, { ...bundle, version: 2 }, "garden v2"));
+    await assert.rejects(app.importProject(alice, { ...bundle, dependencies: [{ task: "task-1", blockedBy: "task-2" }] }, "garden broken"));
+    assert.deepEqual(
+      (await app.getUserProjects(alice)).map((project) => project.name),
+      ["garden"],
+    );
+  });
+
+  it("rejects self-dependencies, repeated dependencies and dependency cycles", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+
+    const projectId = (await app.createProject(alice, "garden")).project!._id.toString();
+    for (const description of ["dig", "plant", "water"]) {
+      await app.createTask(alice, projectId, description);
+    }
+    const bundle = JSON.parse(JSON.stringify(await app.exportProject(alice, projectId)));
+    const [dig, plant, water] = (bundle.tasks as { key: string }[]).map((task) => task.key);
+    const withDependencies = (dependencies: [string, string][]) => ({ ...bundle, dependencies: dependencies.map(([task, blockedBy]) => ({ task, blockedBy })) });
+
+    await assert.rejects(app.importProject(alice, withDependencies([[dig, dig]]), "self"), /cannot depend on itself/);
+    await assert.rejects(
+      app.importProject(
+        alice,
+        withDependencies([
+          [plant, dig],
+          [plant, dig],
+        ]),
+        "repeated",
+      ),
+      /more than once/,
+    );
+    await assert.rejects(
+      app.importProject(
+        alice,
+        withDependencies([
+          [plant, dig],
+          [water, plant],
+          [dig, water],
+        ]),
+        "cycle",
+      ),
+      /form a cycle/,
+    );
+    assert.equal((await app.getUserProjects(alice)).length, 1);
+
+    await app.importProject(
+      alice,
+      withDependencies([
+        [plant, dig],
+        [water, plant],
+      ]),
+      "fine",
+    );
+  });
+});
+
+describe("Atomic cascading deletes", () => {
+  // Make `method` of `concept` fail until the returned function is called
+  function injectFailure<T extends object>(concept: T, method: keyof T) {
+    const original = concept[method];
+    concept[method] = (async () => {
+      throw new Error("Injected failure");
+    }) as T[keyof T];
+    return () => {
+      concept[method] = original;
+    };
+  }
+
+  async function setUp() {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+    const bobId = (await app.getUser("bob"))._id.toString();
+
+    const { project } = await app.createProject(alice, "orchard");
+    assert(project);
+    const projectId = project._id.toString();
+    const { invite } = await app.inviteToProject(alice, projectId, "bob");
+    await app.acceptProjectInvite(bob, invite!._id.toString());
+    const task = (await app.createTask(alice, projectId, "prune", bobId)).task!._id.toString();
+    await app.createTaskComment(bob, task, "on it");
+    return { alice, bob, bobId, projectId, task };
+  }
+
+  it("deleting a task either removes everything linked to it or nothing", async () => {
+    const { alice, task } = await setUp();
+
+    const restore = injectFailure(TaskComment, "deleteByTarget");
+    try {
+      await assert.rejects(app.deleteTask(alice, task));
+    } finally {
+      restore();
+    }
+    assert.deepEqual(
+      (await app.getAssigneesForTask(alice, task)).map((assignee) => assignee.item.toString()),
+      [(await app.getUser("bob"))._id.toString()],
+    );
+
+    await app.deleteTask(alice, task);
+    await assert.rejects(app.getAssigneesForTask(alice, task));
+  });
+
+  it("removing a member keeps their assignments if it fails", async () => {
+    const { alice, bobId, projectId, task } = await setUp();
+
+    const restore = injectFailure(ProjectMember, "removeGroupItem");
+    try {
+      await assert.rejects(app.deleteMemberFromProject(alice, projectId, bobId));
+    } finally {
+      restore();
+    }
+    assert.equal((await app.getAssigneesForTask(alice, task)).length, 1);
+    assert.equal((await app.getAllMembersInProject(alice, projectId)).length, 2);
+  });
+
+  it("deleting a project keeps all of it if it fails", async () => {
+    const { alice, bob, projectId, task } = await setUp();
+    await app.archiveProject(alice, projectId);
+
+    const restore = injectFailure(Status, "deleteForProject");
+    try {
+      await assert.rejects(app.deleteProject(alice, projectId));
+    } finally {
+      restore();
+    }
+    assert.equal((await app.getAllMembersInProject(bob, projectId)).length, 2);
+    assert.equal((await app.getTaskComments(bob, task)).length, 1);
+
+    await app.deleteProject(alice, projectId);
+    await assert.rejects(app.getAllMembersInProject(bob, projectId));
+  });
+});
+
+describe("Account deletion", () => {
+  it("removes the user everywhere and hands over their projects", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bobby123");
+
+    const managed = (await app.createProject(alice, "managed")).project!._id.toString();
+    const contributed = (await app.createProject(alice, "contributed")).project!._id.toString();
+    const alone = (await app.createProject(alice, "alone")).project!._id.toString();
+    for (const [project, role] of [
+      [managed, "manager"],
+      [contributed, "contributor"],
+    ]) {
+      const { invite } = await app.inviteToProject(alice, project, "bob", role);
+      await app.acceptProjectInvite(bob, invite!._id.toString());
+    }
+    const aliceId = (await app.getUser("alice"))._id.toString();
+    await app.createTask(alice, managed, "prune", aliceId);
+    await app.createTask(alice, alone, "weed", aliceId);
+    await app.createPost(alice, "hello");
+
+    const summary = await app.deleteUser(alice);
+    assert.deepEqual(summary.removed, {
+      posts: 1,
+      friendships: 0,
+      friendRequests: 0,
+      projectMemberships: 3,
+      taskAssignments: 2,
+      comments: 0,
+      invites: 2,
+      templates: 0,
+      tokens: 0,
+    });
+    assert.deepEqual(
+      [summary.projects.transferred, summary.projects.archived, summary.projects.deleted].map((ids) => ids.map((id) => id.toString())),
+      [[managed], [contributed], [alone]],
+    );
+
+    const projects = await app.getUserProjects(bob, "true");
+    assert.deepEqual(
+      projects.map((project) => [project.name, project.archived !== undefined]),
+      [
+        ["managed", false],
+        ["contributed", true],
+      ],
+    );
+    assert.deepEqual(
+      (await app.getAllMembersInProject(bob, managed)).map((member) => member.role),
+      ["owner"],
+    );
+    assert.deepEqual(
+      (await app.getAllMembersInProject(bob, contributed)).map((member) => member.role),
+      ["owner"],
+      "Projects without a manager go to the longest-standing member",
+    );
+    await app.restoreProject(bob, contributed);
+    await assert.rejects(app.getUser("alice"));
+  });
+});
+
 /*
  * As you add more tests, remember to put them inside `describe` blocks.
  */